@@ -1,15 +1,71 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import type { MouseEvent } from "react";
+import {
+  evaluateExpression,
+  ExpressionError,
+  isValidVariableName,
+  parseAssignment,
+  tokenize,
+  type AngleUnit,
+  type EvalContext,
+  type Variables,
+} from "./calcExpression.ts";
+import { Decimal, roundingModes, type RoundingMode } from "./calcDecimal.ts";
+import {
+  evaluateIntegerExpression,
+  formatInteger,
+  formatWithPrefix,
+  groupDigits,
+  isDigitAllowed,
+  parseInteger,
+  radixes,
+  wordSizes,
+  wrap,
+  type IntegerFormat,
+  type Radix,
+  type WordSize,
+} from "./calcProgrammer.ts";
+import {
+  addHistoryEntry,
+  createHistoryEntry,
+  loadHistory,
+  saveHistory,
+  type HistoryEntry,
+} from "./calcHistory.ts";
+import { loadMemory, saveMemory, type MemoryState } from "./calcMemory.ts";
+import CalculatorConverter from "./CalculatorConverter.tsx";
+import CalculatorDateTime from "./CalculatorDateTime.tsx";
+import CalculatorHistory from "./CalculatorHistory.tsx";
+import CalculatorStats from "./CalculatorStats.tsx";
+import CalculatorVariables from "./CalculatorVariables.tsx";
 
 // --- 类型定义 ---
 
+/**
+ * 计算器模式：基础 / 科学 / 程序员 / 单位换算 / 日期时间 / 统计
+ */
+type CalcMode = "basic" | "scientific" | "programmer" | "convert" | "datetime" | "stats";
+
 /**
  * 计算器状态的接口
  */
 interface CalcState {
-  sign: string; // 当前的运算符
-  num: number | string; // 当前输入的数字
-  res: number | string; // 计算结果
+  tokens: string[]; // 已输入的表达式片段 (数字、运算符、括号)
+  num: string; // 当前正在输入的数字，"" 表示尚未输入
+  res: string; // 上一次的计算结果
+  lastExpr: string; // 上一次计算的表达式，用于在副屏显示 "... ="
+}
+
+/**
+ * 计算精度设置
+ */
+interface CalcSettings {
+  displayPrecision: number | null; // 显示的小数位数 (补齐)，null 表示自动
+  rounding: RoundingMode; // 除法与显示时的舍入方式
+  angleUnit: AngleUnit; // 三角函数的角度单位
+  radix: Radix; // 程序员模式的输入与显示进制
+  wordSize: WordSize; // 程序员模式的字长
+  signed: boolean; // 程序员模式是否为有符号 (补码)
 }
 
 /**
@@ -18,6 +74,8 @@ interface CalcState {
 interface ScreenProps {
   primary: string | number; // 主显示 (大字体)
   secondary: string | number; // 辅助显示 (小字体, 顶部)
+  isError?: boolean; // 主显示为错误信息时使用较小字号
+  hasMemory?: boolean; // M 寄存器非空时显示 "M" 标记
 }
 
 /**
@@ -27,6 +85,13 @@ interface WrapperProps {
   children: React.ReactNode;
 }
 
+/**
+ * 按钮容器组件的 Props
+ */
+interface ButtonBoxProps extends WrapperProps {
+  columns: 4 | 6 | 7; // 基础模式 4 列，程序员模式 6 列，科学模式 7 列
+}
+
 /**
  * 按钮组件的 Props
  */
@@ -34,10 +99,19 @@ interface ButtonProps {
   className?: string;
   value: string | number;
   onClick: (e: MouseEvent<HTMLButtonElement>) => void; // 保持 MouseEvent 类型
-  onMouseDown?: (e: MouseEvent<HTMLButtonElement>) => void;
-  onMouseUp?: (e: MouseEvent<HTMLButtonElement>) => void;
-  onTouchStart?: (e: React.TouchEvent<HTMLButtonElement>) => void;
-  onTouchEnd?: (e: React.TouchEvent<HTMLButtonElement>) => void;
+  disabled?: boolean; // 程序员模式下当前进制不可用的数字键
+  pressed?: boolean; // 键盘按下对应按键时高亮
+}
+
+/**
+ * 程序员模式面板的 Props
+ */
+interface ProgrammerPanelProps {
+  value: bigint; // 当前显示的值
+  settings: CalcSettings;
+  onRadixChange: (radix: Radix) => void;
+  onFormatChange: (fmt: IntegerFormat) => void;
+  onToggleBit: (bit: number) => void;
 }
 
 // --- 帮助函数 ---
@@ -48,32 +122,212 @@ interface ButtonProps {
 const toLocaleString = (num: number | string): string =>
   String(num).replace(/(?<!\..*)(\d)(?=(?:\d{3})+(?:\.|$))/g, "$1 ");
 
+const operators = ["+", "−", "×", "÷", "^", "ʸ√"];
+
+const constantTokens = ["π", "e"];
+
+const postfixTokens = ["!", "%", "²"];
+
+/**
+ * 科学模式按键与写入表达式的函数片段
+ */
+const functionKeys: Record<string, string> = {
+  sin: "sin(",
+  cos: "cos(",
+  tan: "tan(",
+  "sin⁻¹": "sin⁻¹(",
+  "cos⁻¹": "cos⁻¹(",
+  "tan⁻¹": "tan⁻¹(",
+  ln: "ln(",
+  log: "log(",
+  "eˣ": "exp(",
+  "√": "√(",
+};
+
+/**
+ * 科学模式按键与写入表达式的运算符
+ */
+const scientificOperatorKeys: Record<string, string> = {
+  "x²": "²",
+  "x!": "!",
+  "%": "%",
+  "xʸ": "^",
+  "ʸ√x": "ʸ√",
+};
+
+/**
+ * 判断表达式片段是否为数字
+ */
+const isNumberToken = (token: string): boolean => /^-?[\d.]/.test(token);
+
+/**
+ * 键盘按键与按钮的对应关系 (数字键与模式相关的字母键在 resolveKey 中处理)
+ */
+const keyBindings: Record<string, string> = {
+  "+": "+",
+  "-": "−",
+  "*": "×",
+  "/": "÷",
+  "=": "=",
+  Enter: "=",
+  Backspace: "BKSP",
+  Escape: "AC",
+  Delete: "AC",
+  ".": ".",
+  ",": ".",
+  "(": "(",
+  ")": ")",
+  "^": "xʸ",
+  "!": "x!",
+  "%": "%",
+  "&": "AND",
+  "|": "OR",
+  "~": "NOT",
+  "<": "<<",
+  ">": ">>",
+};
+
+/**
+ * 根据当前模式把按键解析为按钮值，无对应按钮时返回 null
+ */
+const resolveKey = (key: string, mode: CalcMode): string | number | null => {
+  if (/^\d$/.test(key)) return Number(key);
+  if (mode === "programmer") {
+    if (/^[a-f]$/i.test(key)) return key.toUpperCase();
+    if (key === "^") return "XOR";
+    if (key === "%") return "MOD";
+  }
+  if (key === "e") return "e";
+  if (key === "p") return "π";
+  return keyBindings[key] ?? null;
+};
+
+/**
+ * 事件是否来自可编辑元素 (输入框、文本域、下拉框等)，此时键盘和剪贴板交给元素自身处理
+ */
+const isEditableTarget = (target: EventTarget): boolean =>
+  target instanceof HTMLElement && target.closest("input, textarea, select, [contenteditable]") !== null;
+
+/**
+ * 粘贴的表达式中函数名与按钮片段的对应关系
+ */
+const pastedFunctionLabels: Record<string, string> = {
+  asin: "sin⁻¹",
+  acos: "cos⁻¹",
+  atan: "tan⁻¹",
+};
+
+/**
+ * 将粘贴的表达式转换为计算器的表达式片段；无法识别时抛出 ExpressionError
+ */
+const pastedToTokens = (text: string): string[] => {
+  // 去掉数字中的千分位分隔符，例如 "1 000" 与 "1,000"
+  const normalized = text.trim().replace(/(\d)[\s_,](?=\d{3}(?!\d))/g, "$1");
+  const tokens = tokenize(normalized);
+  const result: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "function") {
+      // 函数与其后的左括号合并为一个片段，与按钮输入保持一致
+      const next = tokens[i + 1];
+      if (next?.type === "paren" && next.value === "(") i++;
+      result.push(`${pastedFunctionLabels[token.value] ?? token.value}(`);
+    } else {
+      result.push(token.value);
+    }
+  }
+  return result;
+};
+
+/**
+ * 判断表达式片段能否作为一个操作数的结尾 (其后可以接运算符)；变量名与 ans 也算操作数
+ */
+const isOperandEnd = (token: string | undefined): boolean =>
+  token === ")" ||
+  constantTokens.includes(token ?? "") ||
+  postfixTokens.includes(token ?? "") ||
+  (token !== undefined && isValidVariableName(token));
+
+/**
+ * 记忆键
+ */
+const memoryKeys = ["MC", "MR", "M+", "M−"];
+
+/**
+ * 将表达式片段格式化为副屏显示的字符串
+ */
+const formatTokens = (
+  tokens: string[],
+  formatNumber: (num: string) => string = toLocaleString
+): string =>
+  tokens.map((t) => (isNumberToken(t) ? formatNumber(t) : t)).join(" ");
+
+/**
+ * 切换数字字符串的正负号
+ */
+const negate = (num: string): string =>
+  num.startsWith("-") ? num.slice(1) : /^[0.]*$/.test(num) ? num : "-" + num;
+
+/**
+ * 除法结果在内部保留的小数位数；显示时再按设置舍入
+ */
+const divisionScale = 32;
+
+/**
+ * 自动模式下最多显示的小数位数
+ */
+const autoDisplayPlaces = 12;
+
+const displayPrecisionOptions = [null, 0, 1, 2, 3, 4, 6, 8, 10, 12, 16, 20];
+
+const defaultSettings: CalcSettings = {
+  displayPrecision: null,
+  rounding: "half-up",
+  angleUnit: "deg",
+  radix: 10,
+  wordSize: 64,
+  signed: true,
+};
+
 /**
- * 移除数字字符串中的空格 (例如 "1 000" -> "1000")
+ * 从 localStorage 读取精度设置
  */
-const removeSpaces = (num: number | string): string =>
-  num.toString().replace(/\s/g, "");
+const loadSettings = (): CalcSettings => {
+  if (typeof window === "undefined") return defaultSettings;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem("calculatorSettings") ?? "null");
+    return { ...defaultSettings, ...saved };
+  } catch {
+    return defaultSettings;
+  }
+};
+
+const modeLabels: Record<CalcMode, string> = {
+  basic: "基础",
+  scientific: "科学",
+  programmer: "程序员",
+  convert: "换算",
+  datetime: "日期",
+  stats: "统计",
+};
 
 /**
- * 执行数学运算
+ * 从 localStorage 读取上次使用的模式
  */
-const math = (a: number, b: number, sign: string): number => {
-  switch (sign) {
-    case "+":
-      return a + b;
-    case "−": // 使用减号
-      return a - b;
-    case "×": // 使用乘号
-      return a * b;
-    case "÷": // 使用除号
-      return a / b;
-    default:
-      // 默认情况，可能不应该发生，但作为回退
-      return b; 
+const loadMode = (): CalcMode => {
+  if (typeof window !== "undefined") {
+    const saved = window.localStorage.getItem("calculatorMode");
+    if (saved && saved in modeLabels) return saved as CalcMode;
   }
+  return "basic";
 };
 
-const zeroDivisionError = "不能除以 0";
+const initialCalc: CalcState = {
+  tokens: [],
+  num: "",
+  res: "0",
+  lastExpr: "",
+};
 
 // --- 组件 ---
 
@@ -91,15 +345,20 @@ const Wrapper: React.FC<WrapperProps> = ({ children }) => {
 /**
  * 显示屏组件
  */
-const Screen: React.FC<ScreenProps> = ({ primary, secondary }) => {
+const Screen: React.FC<ScreenProps> = ({ primary, secondary, isError, hasMemory }) => {
+  // 数字较长时缩小字号，避免超出屏幕
+  const length = String(primary).length;
+  const primarySize = length > 20 ? "text-2xl" : length > 12 ? "text-4xl" : "text-5xl";
+
   return (
-    <div className="bg-gray-800 text-white text-right p-6 h-40 flex flex-col items-end justify-end break-all">
+    <div className="relative bg-gray-800 text-white text-right p-6 h-40 flex flex-col items-end justify-end break-all">
+      {hasMemory && <span className="absolute left-6 top-4 text-sm text-gray-400">M</span>}
       {/* 辅助显示 (顶部) */}
       <span className="text-2xl font-light text-gray-400 mb-1 opacity-75 h-8 truncate max-w-full">
         {secondary}
       </span>
       {/* 主显示 (底部) */}
-      <span className="text-5xl font-light">
+      <span className={isError ? "text-2xl text-red-400" : `${primarySize} font-light max-w-full`}>
         {primary}
       </span>
     </div>
@@ -109,9 +368,10 @@ const Screen: React.FC<ScreenProps> = ({ primary, secondary }) => {
 /**
  * 按钮容器组件
  */
-const ButtonBox: React.FC<WrapperProps> = ({ children }) => {
+const ButtonBox: React.FC<ButtonBoxProps> = ({ children, columns }) => {
+  const gridCols = { 4: "grid-cols-4", 6: "grid-cols-6", 7: "grid-cols-7" }[columns];
   return (
-    <div className="grid grid-cols-4 gap-px bg-gray-300">
+    <div className={`grid ${gridCols} gap-px bg-gray-300`}>
       {children}
     </div>
   );
@@ -124,19 +384,14 @@ const Button: React.FC<ButtonProps> = ({
   className,
   value,
   onClick,
-  onMouseDown,
-  onMouseUp,
-  onTouchStart,
-  onTouchEnd,
+  disabled,
+  pressed,
 }) => {
   return (
     <button
-      className={`text-2xl font-medium focus:outline-none transition-colors duration-150 flex items-center justify-center h-16 sm:h-20 ${className}`} // ** 调整高度 **
+      className={`font-medium focus:outline-none transition-colors duration-150 flex items-center justify-center h-16 sm:h-20 disabled:opacity-30 disabled:pointer-events-none ${pressed ? "brightness-90 ring-2 ring-inset ring-blue-400" : ""} ${className}`} // ** 调整高度 **
       onClick={onClick}
-      onMouseDown={onMouseDown}
-      onMouseUp={onMouseUp}
-      onTouchStart={onTouchStart}
-      onTouchEnd={onTouchEnd}
+      disabled={disabled}
     >
       {/* 如果值是 "BKSP", 渲染SVG图标 */}
       {value === "BKSP" ? (
@@ -161,56 +416,358 @@ const Button: React.FC<ButtonProps> = ({
   );
 };
 
+/**
+ * 程序员模式面板：各进制数值、字长与符号设置、可点击的位视图
+ */
+const ProgrammerPanel: React.FC<ProgrammerPanelProps> = ({
+  value,
+  settings,
+  onRadixChange,
+  onFormatChange,
+  onToggleBit,
+}) => {
+  const fmt: IntegerFormat = { wordSize: settings.wordSize, signed: settings.signed };
+  const bits = BigInt.asUintN(fmt.wordSize, value);
+
+  // 从最高位开始，每 4 位一组
+  const nibbles = Array.from({ length: fmt.wordSize / 4 }, (_, i) => fmt.wordSize - 1 - i * 4);
+
+  return (
+    <div className="col-span-2 bg-gray-100 rounded-2xl border border-gray-300 p-4 flex flex-col gap-4 text-sm">
+      {/* 各进制数值，点击切换输入进制 */}
+      <div className="grid gap-1">
+        {radixes.map((r) => (
+          <button
+            key={r.value}
+            onClick={() => onRadixChange(r.value)}
+            className={`flex gap-4 text-left px-3 py-1 rounded-md font-mono ${
+              settings.radix === r.value ? "bg-blue-500 text-white" : "hover:bg-gray-200"
+            }`}
+          >
+            <span className="w-10 font-semibold">{r.label}</span>
+            <span className="break-all">{groupDigits(formatInteger(value, r.value, fmt), r.value)}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* 字长与符号 */}
+      <div className="flex flex-wrap items-center gap-4 text-gray-600">
+        <div className="flex rounded-lg overflow-hidden border border-gray-300">
+          {wordSizes.map((w) => (
+            <button
+              key={w}
+              onClick={() => onFormatChange({ ...fmt, wordSize: w })}
+              className={`px-3 py-1 ${
+                fmt.wordSize === w ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"
+              }`}
+            >
+              {w} 位
+            </button>
+          ))}
+        </div>
+        <div className="flex rounded-lg overflow-hidden border border-gray-300">
+          {([
+            [true, "有符号"],
+            [false, "无符号"],
+          ] as const).map(([signed, label]) => (
+            <button
+              key={label}
+              onClick={() => onFormatChange({ ...fmt, signed })}
+              className={`px-3 py-1 ${
+                fmt.signed === signed ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 位视图：点击切换单个位 */}
+      <div className="flex flex-wrap gap-x-3 gap-y-2 font-mono">
+        {nibbles.map((high) => (
+          <div key={high} className="flex flex-col items-start">
+            <div className="flex">
+              {[high, high - 1, high - 2, high - 3].map((bit) => (
+                <button
+                  key={bit}
+                  onClick={() => onToggleBit(bit)}
+                  title={`第 ${bit} 位`}
+                  className={`w-5 text-center rounded hover:bg-gray-300 ${
+                    (bits >> BigInt(bit)) & 1n ? "text-blue-600 font-bold" : "text-gray-400"
+                  }`}
+                >
+                  {((bits >> BigInt(bit)) & 1n).toString()}
+                </button>
+              ))}
+            </div>
+            <span className="text-[10px] text-gray-400">{high}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 // --- 主应用组件 ---
 
 const Calculator: React.FC = () => {
-  // 按钮布局 (使用新的数学符号)
-  const btnValues = [
-    ["HEX", "BKSP", "AC", "÷"],
-    [7, 8, 9, "×"],
-    [4, 5, 6, "−"],
-    [1, 2, 3, "+"],
-    ["+-", 0, ".", "="],
+  const [calc, setCalc] = useState<CalcState>(initialCalc);
+  const [error, setError] = useState("");
+  const [settings, setSettings] = useState<CalcSettings>(loadSettings);
+  const [mode, setMode] = useState<CalcMode>(loadMode);
+  const [pressedKey, setPressedKey] = useState<string | number | null>(null);
+  const [keyboardActive, setKeyboardActive] = useState(false);
+  const pressTimerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (pressTimerRef.current !== null) window.clearTimeout(pressTimerRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    // 持久化精度设置
+    window.localStorage.setItem("calculatorSettings", JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    // 持久化模式
+    window.localStorage.setItem("calculatorMode", mode);
+  }, [mode]);
+
+  const angleKey = settings.angleUnit === "deg" ? "DEG" : "RAD";
+
+  // 按钮布局 (使用新的数学符号)；科学模式在左侧增加三列，程序员模式增加两列
+  const basicRows: (string | number)[][] = [
+    ["(", ")", "BKSP", "AC"],
+    [7, 8, 9, "÷"],
+    [4, 5, 6, "×"],
+    [1, 2, 3, "−"],
+    ["+-", 0, ".", "+"],
+    mode === "programmer" ? ["MOD", "="] : ["="],
   ];
+  const scientificRows: (string | number)[][] = [
+    [angleKey, "π", "e"],
+    ["sin", "cos", "tan"],
+    ["sin⁻¹", "cos⁻¹", "tan⁻¹"],
+    ["ln", "log", "eˣ"],
+    ["x²", "xʸ", "x!"],
+    ["√", "ʸ√x", "%"],
+  ];
+  const programmerRows: (string | number)[][] = [
+    ["A", "B"],
+    ["C", "D"],
+    ["E", "F"],
+    ["AND", "OR"],
+    ["XOR", "NOT"],
+    ["<<", ">>"],
+  ];
+  const extraRows =
+    mode === "scientific" ? scientificRows : mode === "programmer" ? programmerRows : null;
+  const btnValues = extraRows ? basicRows.map((row, i) => [...extraRows[i], ...row]) : basicRows;
+
+  const intFormat: IntegerFormat = { wordSize: settings.wordSize, signed: settings.signed };
+
+  const [memory, setMemory] = useState<MemoryState>(loadMemory);
 
-  const [calc, setCalc] = useState<CalcState>({
-    sign: "",
-    num: 0,
-    res: 0,
-  });
+  useEffect(() => {
+    // 持久化记忆与变量
+    saveMemory(memory);
+  }, [memory]);
 
-  const [history, setHistory] = useState<string[]>([]);
-  const [isHexView, setIsHexView] = useState(false);
-  const [hexDisplay, setHexDisplay] = useState("0");
+  // 表达式中可用的变量：用户定义的变量加上 ans (上一次结果)
+  const scope: Variables = { ...memory.variables, ans: calc.res };
+
+  const evalContext: EvalContext = {
+    scale: divisionScale,
+    rounding: settings.rounding,
+    angleUnit: settings.angleUnit,
+    variables: scope,
+  };
+
+  /**
+   * 按显示精度格式化计算结果
+   */
+  const formatResult = (value: string): string => {
+    const decimal = Decimal.parse(value);
+    return settings.displayPrecision === null
+      ? decimal.round(autoDisplayPlaces, settings.rounding).toString()
+      : decimal.toFixed(settings.displayPrecision, settings.rounding);
+  };
+
+  /**
+   * 按当前模式格式化表达式中的数字
+   */
+  const formatNumber = (value: string): string =>
+    mode === "programmer"
+      ? groupDigits(formatInteger(BigInt(value), settings.radix, intFormat), settings.radix)
+      : toLocaleString(value);
+
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+
+  useEffect(() => {
+    // 持久化历史记录
+    saveHistory(history);
+  }, [history]);
+
+  const lastToken = calc.tokens[calc.tokens.length - 1];
 
   /**
    * 数字点击处理
    */
   const numClickHandler = (btn: number | string) => { // 接收 btn 值
     const value = btn.toString();
-    if (removeSpaces(calc.num).length < 16) {
-      setCalc({
-        ...calc,
-        num:
-          calc.num === 0 && value === "0"
-            ? "0"
-            : Number(removeSpaces(calc.num)) % 1 === 0 &&
-              !calc.num.toString().includes(".")
-            ? toLocaleString(Number(removeSpaces(calc.num + value)))
-            : toLocaleString(calc.num + value),
-        res: !calc.sign ? 0 : calc.res,
-      });
+    if (mode === "programmer") return programmerDigitHandler(value);
+    // 数字以字符串保存，不再限制位数，也不会丢失精度
+    setCalc({
+      ...calc,
+      // 右括号、常量等之后直接输入数字视为乘法
+      tokens: isOperandEnd(lastToken) ? [...calc.tokens, "×"] : calc.tokens,
+      num: calc.num === "0" ? value : calc.num === "-0" ? "-" + value : calc.num + value,
+      lastExpr: "",
+    });
+  };
+
+  /**
+   * 程序员模式的数字输入：按当前进制拼接后重新解析，超出字长的输入直接忽略
+   * (num 始终保存十进制值，切换进制时只需改变显示)
+   */
+  const programmerDigitHandler = (digit: string) => {
+    const current =
+      calc.num === "" || calc.num === "0"
+        ? ""
+        : formatInteger(BigInt(calc.num), settings.radix, intFormat);
+    const next = parseInteger(current + digit, settings.radix, intFormat);
+    if (next === null) return;
+    setCalc({
+      ...calc,
+      tokens: isOperandEnd(lastToken) ? [...calc.tokens, "×"] : calc.tokens,
+      num: next.toString(),
+      lastExpr: "",
+    });
+  };
+
+  /**
+   * NOT 点击处理：对当前数字立即取反，否则作为前缀写入表达式
+   */
+  const notClickHandler = () => {
+    if (calc.num !== "") {
+      setCalc({ ...calc, num: wrap(~BigInt(calc.num), intFormat).toString() });
+    } else if (calc.tokens.length === 0) {
+      setCalc({ ...calc, num: wrap(~BigInt(calc.res), intFormat).toString(), lastExpr: "" });
+    } else if (!isOperandEnd(lastToken)) {
+      setCalc({ ...calc, tokens: [...calc.tokens, "NOT"] });
     }
   };
 
+  /**
+   * 位视图点击处理：切换当前数字的某一位
+   */
+  const toggleBitHandler = (bit: number) => {
+    const base = calc.num !== "" ? calc.num : calc.tokens.length === 0 ? calc.res : "0";
+    setCalc({
+      ...calc,
+      tokens: calc.num === "" && isOperandEnd(lastToken) ? [...calc.tokens, "×"] : calc.tokens,
+      num: wrap(BigInt(base) ^ (1n << BigInt(bit)), intFormat).toString(),
+      lastExpr: "",
+    });
+  };
+
+  /**
+   * 切换模式；进入或离开程序员模式时清空表达式，结果取整后保留
+   */
+  const changeMode = (next: CalcMode) => {
+    if ((next === "programmer") !== (mode === "programmer")) {
+      setCalc({ ...initialCalc, res: convertResult(next) });
+      setError("");
+    }
+    setMode(next);
+  };
+
+  /**
+   * 进入或离开程序员模式时，将上一次结果取整 (进入时再按字长截断)
+   */
+  const convertResult = (next: CalcMode): string => {
+    const integer = Decimal.parse(calc.res).round(0, "down").int;
+    return (next === "programmer" ? wrap(integer, intFormat) : integer).toString();
+  };
+
+  /**
+   * 修改字长或符号，已输入的数字按新格式截断
+   */
+  const changeIntegerFormat = (fmt: IntegerFormat) => {
+    const rewrap = (value: string) => wrap(BigInt(value), fmt).toString();
+    setSettings({ ...settings, ...fmt });
+    setCalc({
+      ...calc,
+      tokens: calc.tokens.map((t) => (isNumberToken(t) ? rewrap(t) : t)),
+      num: calc.num !== "" ? rewrap(calc.num) : "",
+      res: rewrap(calc.res),
+    });
+  };
+
+  /**
+   * 将一个数值作为当前输入的数字 (点击历史记录等共用)
+   */
+  const insertValue = (value: string) => {
+    setError("");
+    setCalc({
+      ...calc,
+      tokens: calc.num === "" && isOperandEnd(lastToken) ? [...calc.tokens, "×"] : calc.tokens,
+      num:
+        mode === "programmer"
+          ? wrap(Decimal.parse(value).round(0, "down").int, intFormat).toString()
+          : value,
+      lastExpr: "",
+    });
+  };
+
+  /**
+   * 将历史记录中的整个表达式载入计算器，必要时切换到对应的模式
+   */
+  const loadExpression = (entry: HistoryEntry) => {
+    try {
+      setExpression(entry.tokens, entry.mode as CalcMode);
+    } catch (err) {
+      if (!(err instanceof ExpressionError)) throw err;
+      setError(err.message);
+    }
+  };
+
+  /**
+   * 用给定的表达式片段替换当前输入 (载入历史、粘贴表达式共用)；
+   * 程序员模式下含有非整数时抛出 ExpressionError
+   */
+  const setExpression = (tokens: string[], targetMode: CalcMode) => {
+    if (targetMode === "programmer" && tokens.some((t) => isNumberToken(t) && !/^-?\d+$/.test(t))) {
+      throw new ExpressionError("程序员模式只支持整数", 0);
+    }
+    const switching = (targetMode === "programmer") !== (mode === "programmer");
+    if (switching) setMode(targetMode);
+    const last = tokens[tokens.length - 1];
+    // 末尾的数字放回输入区，便于继续编辑
+    const editable = last !== undefined && isNumberToken(last);
+    setError("");
+    setCalc({
+      res: switching ? convertResult(targetMode) : calc.res,
+      tokens: editable ? tokens.slice(0, -1) : tokens,
+      num: editable ? last : "",
+      lastExpr: "",
+    });
+  };
+
   /**
    * 小数点点击处理
    */
   const comaClickHandler = (btn: number | string) => { // 接收 btn 值
     const value = btn.toString();
+    if (calc.num.includes(".")) return;
     setCalc({
       ...calc,
-      num: !calc.num.toString().includes(".") ? calc.num + value : calc.num,
+      tokens: isOperandEnd(lastToken) ? [...calc.tokens, "×"] : calc.tokens,
+      num: calc.num === "" || calc.num === "-" ? calc.num + "0" + value : calc.num + value,
+      lastExpr: "",
     });
   };
 
@@ -219,27 +776,75 @@ const Calculator: React.FC = () => {
    */
   const signClickHandler = (btn: number | string) => { // 接收 btn 值
     const sign = btn.toString();
-    // 连续运算处理：如果已有num和res，先计算
-    if (calc.sign && calc.num && calc.res) {
-      const result = math(
-        Number(removeSpaces(calc.res)),
-        Number(removeSpaces(calc.num)),
-        calc.sign
-      );
-      setCalc({
-        ...calc,
-        sign: sign,
-        res: toLocaleString(result),
-        num: 0,
-      });
-    } else {
-      // 正常情况
+
+    if (calc.num !== "") {
+      setCalc({ ...calc, tokens: [...calc.tokens, calc.num, sign], num: "", lastExpr: "" });
+    } else if (calc.tokens.length === 0) {
+      // 连续运算：以上一次结果作为左操作数
+      setCalc({ ...calc, tokens: [calc.res, sign], lastExpr: "" });
+    } else if (operators.includes(lastToken)) {
+      // 连续按运算符时替换上一个运算符
+      setCalc({ ...calc, tokens: [...calc.tokens.slice(0, -1), sign] });
+    } else if (isOperandEnd(lastToken) || sign === "−") {
+      // 左括号后只允许负号
+      setCalc({ ...calc, tokens: [...calc.tokens, sign] });
+    }
+  };
+
+  /**
+   * 后缀运算符 (x²、x!、%) 点击处理
+   */
+  const postfixClickHandler = (op: string) => {
+    if (calc.num !== "") {
+      setCalc({ ...calc, tokens: [...calc.tokens, calc.num, op], num: "", lastExpr: "" });
+    } else if (calc.tokens.length === 0) {
+      setCalc({ ...calc, tokens: [calc.res, op], lastExpr: "" });
+    } else if (isOperandEnd(lastToken)) {
+      setCalc({ ...calc, tokens: [...calc.tokens, op] });
+    }
+  };
+
+  /**
+   * 常量 (π、e) 与变量 (ans、自定义变量) 点击处理
+   */
+  const constantClickHandler = (constant: string) => {
+    // 数字或右括号后接常量视为乘法
+    const implicit = calc.num !== "" || isOperandEnd(lastToken) ? ["×"] : [];
+    setCalc({
+      ...calc,
+      tokens: [...calc.tokens, ...(calc.num !== "" ? [calc.num] : []), ...implicit, constant],
+      num: "",
+      lastExpr: "",
+    });
+  };
+
+  /**
+   * 括号点击处理；函数按键写入 "sin(" 这样带左括号的片段，也走这里
+   */
+  const parenClickHandler = (btn: number | string) => {
+    const paren = btn.toString();
+
+    if (paren.endsWith("(")) {
+      // 数字或右括号后接左括号视为乘法
+      const implicit = calc.num !== "" || isOperandEnd(lastToken) ? ["×"] : [];
       setCalc({
         ...calc,
-        sign: sign,
-        res: calc.num ? calc.num : calc.res, // res = (calc.num || calc.res)
-        num: 0,
+        tokens: [...calc.tokens, ...(calc.num !== "" ? [calc.num] : []), ...implicit, paren],
+        num: "",
+        lastExpr: "",
       });
+      return;
+    }
+
+    const open =
+      calc.tokens.filter((t) => t.endsWith("(")).length -
+      calc.tokens.filter((t) => t === ")").length;
+    if (open <= 0) return;
+
+    if (calc.num !== "") {
+      setCalc({ ...calc, tokens: [...calc.tokens, calc.num, ")"], num: "" });
+    } else if (isOperandEnd(lastToken)) {
+      setCalc({ ...calc, tokens: [...calc.tokens, ")"] });
     }
   };
 
@@ -247,32 +852,34 @@ const Calculator: React.FC = () => {
    * 等号点击处理
    */
   const equalsClickHandler = () => {
-    if (calc.sign && calc.num) {
+    const parts = calc.num !== "" ? [...calc.tokens, calc.num] : calc.tokens;
+    if (parts.length === 0) return;
+
+    try {
       const result =
-        calc.num === "0" && calc.sign === "÷"
-          ? zeroDivisionError
-          : toLocaleString(
-              math(
-                Number(removeSpaces(calc.res)),
-                Number(removeSpaces(calc.num)),
-                calc.sign
-              )
-            );
+        mode === "programmer"
+          ? evaluateIntegerExpression(parts.join(" "), intFormat, scope).toString()
+          : evaluateExpression(parts.join(" "), evalContext).toString();
+      const expression = formatTokens(parts, formatNumber);
 
       setCalc({
-        ...calc,
+        tokens: [],
+        num: "",
         res: result,
-        sign: "",
-        num: 0,
+        lastExpr: expression,
       });
 
-      // 添加到历史记录
-      if (result !== zeroDivisionError) {
-        const expression = `${removeSpaces(calc.res)} ${calc.sign} ${removeSpaces(
-          calc.num
-        )} = ${result}`;
-        setHistory([expression, ...history]);
-      }
+      // 添加到历史记录；程序员模式带上进制前缀
+      const withPrefix = (value: string) => formatWithPrefix(BigInt(value), settings.radix, intFormat);
+      const text =
+        mode === "programmer"
+          ? `${formatTokens(parts, withPrefix)} = ${withPrefix(result)}`
+          : `${parts.join(" ")} = ${toLocaleString(formatResult(result))}`;
+      setHistory(addHistoryEntry(history, createHistoryEntry(mode, parts, result, text)));
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      // 保留已输入的表达式，方便退格修正
+      setError(e.message);
     }
   };
 
@@ -280,63 +887,101 @@ const Calculator: React.FC = () => {
    * 正负号点击处理
    */
   const invertClickHandler = () => {
-    setCalc({
-      ...calc,
-      num: calc.num ? toLocaleString(Number(removeSpaces(calc.num)) * -1) : 0,
-      res: calc.res ? toLocaleString(Number(removeSpaces(calc.res)) * -1) : 0,
-    });
+    // 程序员模式按补码取负，并截断到字长
+    const invert = (value: string) =>
+      mode === "programmer" ? wrap(-BigInt(value), intFormat).toString() : negate(value);
+    if (calc.num !== "") {
+      setCalc({ ...calc, num: invert(calc.num) });
+    } else if (calc.tokens.length === 0) {
+      setCalc({ ...calc, res: invert(calc.res) });
+    }
   };
 
   /**
    * 清除 (AC) 点击处理
    */
   const resetClickHandler = () => {
-    setCalc({
-      sign: "",
-      num: 0,
-      res: 0,
-    });
+    setCalc(initialCalc);
   };
 
   /**
    * 退格 (BKSP) 点击处理
    */
   const backspaceClickHandler = () => {
-    if (calc.num && calc.num !== 0) {
-      const numStr = removeSpaces(calc.num).slice(0, -1);
+    if (calc.num !== "" && mode === "programmer") {
+      // 按当前进制删除最后一位
+      const digits = formatInteger(BigInt(calc.num), settings.radix, intFormat).slice(0, -1);
+      const next = digits === "" || digits === "-" ? null : parseInteger(digits, settings.radix, intFormat);
+      setCalc({ ...calc, num: next === null ? "" : next.toString() });
+    } else if (calc.num !== "") {
+      const numStr = calc.num.slice(0, -1);
       setCalc({
         ...calc,
-        num: numStr.length === 0 ? 0 : toLocaleString(numStr),
+        num: numStr === "-" ? "" : numStr,
       });
+    } else if (calc.tokens.length > 0) {
+      // 删除最后一个片段；若露出的是数字，则回到该数字继续编辑
+      const tokens = calc.tokens.slice(0, -1);
+      const last = tokens[tokens.length - 1];
+      setCalc(
+        last !== undefined && isNumberToken(last)
+          ? { ...calc, tokens: tokens.slice(0, -1), num: last }
+          : { ...calc, tokens }
+      );
     }
   };
 
   /**
-   * HEX 键按下处理
+   * 记忆键处理：M+ / M− 使用正在输入的数字，未输入时使用上一次结果
    */
-  const hexPressHandler = () => {
-    const valueToConvert = Number(removeSpaces(calc.num ? calc.num : calc.res));
-    // 确保是整数
-    const intValue = Math.trunc(valueToConvert);
-    // 转换为16进制，转大写，并添加 "0x" 前缀
-    setHexDisplay("0x" + intValue.toString(16).toUpperCase());
-    setIsHexView(true);
+  const memoryClickHandler = (key: string) => {
+    const current = Decimal.parse(calc.num !== "" ? calc.num : calc.res);
+    const register = memory.register !== null ? Decimal.parse(memory.register) : Decimal.ZERO;
+    const store = (value: Decimal) => {
+      const next =
+        mode === "programmer" ? wrap(value.round(0, "down").int, intFormat).toString() : value.toString();
+      setMemory({ ...memory, register: next });
+    };
+
+    switch (key) {
+      case "MC":
+        return setMemory({ ...memory, register: null });
+      case "MR":
+        if (memory.register !== null) insertValue(memory.register);
+        return;
+      case "M+":
+        return store(register.add(current));
+      case "M−":
+        return store(register.sub(current));
+    }
   };
 
   /**
-   * HEX 键松开处理
+   * 定义变量 "名称 = 表达式"；返回错误信息，成功时返回 null
    */
-  const hexReleaseHandler = () => {
-    setIsHexView(false);
+  const defineVariable = (input: string): string | null => {
+    try {
+      const assignment = parseAssignment(input);
+      if (!assignment) return "请输入 名称 = 表达式，例如 rate = 0.13";
+      if (assignment.name === "ans") return "\"ans\" 是保留的名称";
+      const value =
+        mode === "programmer"
+          ? evaluateIntegerExpression(assignment.expression, intFormat, scope).toString()
+          : evaluateExpression(assignment.expression, evalContext).toString();
+      setMemory({ ...memory, variables: { ...memory.variables, [assignment.name]: value } });
+      return null;
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      return e.message;
+    }
   };
 
   /**
    * 统一的按钮点击分发器
    */
   const buttonClickHandler = (btn: string | number) => { // 接收 btn 值
-    if (calc.res === zeroDivisionError && btn !== "AC") {
-      return resetClickHandler();
-    }
+    // 出错后任意按键先清除错误提示，再继续处理该按键
+    if (error) setError("");
 
     // *** 修复：不再使用 e.currentTarget.innerHTML，而是直接使用 btn ***
     switch (btn) {
@@ -353,10 +998,51 @@ const Calculator: React.FC = () => {
       case "−":
       case "+":
         return signClickHandler(btn); // 直接传递 btn
+      case "(":
+      case ")":
+        return parenClickHandler(btn);
       case ".":
         return comaClickHandler(btn); // 直接传递 btn
+      case "DEG":
+      case "RAD":
+        return setSettings({ ...settings, angleUnit: btn === "DEG" ? "rad" : "deg" });
+      case "π":
+      case "e":
+      case "ans":
+        return constantClickHandler(btn);
+      case "MC":
+      case "MR":
+      case "M+":
+      case "M−":
+        return memoryClickHandler(btn);
+      case "x²":
+      case "x!":
+      case "%":
+        return postfixClickHandler(scientificOperatorKeys[btn]);
+      case "xʸ":
+      case "ʸ√x":
+        return signClickHandler(scientificOperatorKeys[btn]);
+      case "AND":
+      case "OR":
+      case "XOR":
+      case "<<":
+      case ">>":
+      case "MOD":
+        return signClickHandler(btn);
+      case "NOT":
+        return notClickHandler();
+      case "A":
+      case "B":
+      case "C":
+      case "D":
+      case "E":
+      case "F":
+        return numClickHandler(btn);
       // 默认情况 (数字)
       default:
+        if (typeof btn === "string" && btn in functionKeys) {
+          return parenClickHandler(functionKeys[btn]);
+        }
         // 确保是数字
         if (typeof btn === "number" || !isNaN(Number(btn))) {
           return numClickHandler(btn); // 直接传递 btn
@@ -368,95 +1054,352 @@ const Calculator: React.FC = () => {
    * 根据按钮值获取样式类
    */
   const getButtonClassName = (btn: string | number): string => {
-    const baseClasses = "text-black"; // 所有文字为黑色
+    if (scientificRows.flat().includes(btn) || ["AND", "OR", "XOR", "NOT", "<<", ">>", "MOD"].includes(String(btn))) {
+      return "text-black text-lg bg-gray-100 hover:bg-gray-200 active:bg-gray-300"; // 函数键与位运算键使用较小字号
+    }
+
+    const baseClasses = "text-black text-2xl"; // 所有文字为黑色
 
     switch (btn) {
       case "AC":
         return `${baseClasses} bg-orange-400 hover:bg-orange-500 active:bg-orange-600`;
       case "=":
-        return `${baseClasses} bg-blue-500 hover:bg-blue-600 active:bg-blue-700`;
+        // 占满最后一行剩余的列 (程序员模式左侧还有 MOD 键)
+        return `${baseClasses} ${mode === "programmer" ? "col-span-3" : "col-span-4"} bg-blue-500 hover:bg-blue-600 active:bg-blue-700`;
       case "+":
       case "−":
       case "×":
       case "÷":
         return `${baseClasses} bg-gray-200 hover:bg-gray-300 active:bg-orange-500`; // 极浅灰色, 按下橙色
       case "+-":
-      case "HEX":
       case "BKSP":
+      case "(":
+      case ")":
         return `${baseClasses} bg-gray-200 hover:bg-gray-300 active:bg-gray-400`; // 极浅灰色
       default: // 数字 和 "."
         return `${baseClasses} bg-white hover:bg-gray-200 active:bg-gray-300`; // 白色背景
     }
   };
 
-  // (h-40 screen) + (5 * h-16 button) = 10rem + 20rem = 30rem = 480px
-  // (h-40 screen) + (5 * sm:h-20 button) = 10rem + 25rem = 35rem = 560px
-  const fixedCalcHeight = "h-[484px] sm:h-[560px]";
+  // (h-40 screen) + (h-10 记忆键) + (6 * h-16 button) + 间隙与边框 = 10rem + 2.5rem + 24rem + 8px = 592px
+  // (h-40 screen) + (h-10 记忆键) + (6 * sm:h-20 button) + 间隙与边框 = 10rem + 2.5rem + 30rem + 8px = 688px
+  const fixedCalcHeight = "h-[592px] sm:h-[688px]";
+
+  /**
+   * 变量面板与记忆键中数值的显示
+   */
+  const formatValue = (value: string): string =>
+    mode === "programmer" && /^-?\d+$/.test(value)
+      ? formatNumber(value)
+      : toLocaleString(formatResult(value));
+
+  const expression = formatTokens(
+    calc.num !== "" ? [...calc.tokens, calc.num] : calc.tokens,
+    formatNumber
+  );
+
+  /**
+   * 程序员模式下当前进制不可用的数字键与小数点禁用
+   */
+  const isButtonDisabled = (btn: string | number): boolean =>
+    mode === "programmer" &&
+    (btn === "." || (/^[0-9A-F]$/.test(String(btn)) && !isDigitAllowed(String(btn), settings.radix)));
+
+  const isWide = mode === "scientific" || mode === "programmer";
+
+  /**
+   * 换算、日期与统计面板使用的数值：正在输入的表达式先求值，无法计算时返回 null
+   */
+  const currentValue = (): string | null => {
+    if (calc.tokens.length === 0) return calc.num !== "" ? calc.num : calc.res;
+    try {
+      const parts = calc.num !== "" ? [...calc.tokens, calc.num] : calc.tokens;
+      return evaluateExpression(parts.join(" "), evalContext).toString();
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      return null;
+    }
+  };
+
+  /**
+   * 换算与日期面板的结果像普通计算一样加入历史记录；数值结果同时写入计算器
+   * (日期类结果 result 为 null，只记录文本)
+   */
+  const recordResult = (result: string | null, expression: string, text: string) => {
+    if (result !== null) {
+      setError("");
+      setCalc({ tokens: [], num: "", res: result, lastExpr: expression });
+    }
+    setHistory(addHistoryEntry(history, createHistoryEntry(mode, [], result ?? "", text)));
+  };
+
+  /**
+   * 键盘输入：仅在计算器区域获得焦点时生效，复用按钮的点击分发并高亮对应按钮
+   */
+  const keyDownHandler = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return; // 交给复制、粘贴等快捷键
+    if (isEditableTarget(e.target)) return;
+
+    const btn = resolveKey(e.key, mode);
+    if (btn === null || !btnValues.flat().includes(btn) || isButtonDisabled(btn)) return;
+
+    // 阻止回车同时触发当前聚焦按钮的点击
+    e.preventDefault();
+    buttonClickHandler(btn);
+
+    setPressedKey(btn);
+    if (pressTimerRef.current !== null) window.clearTimeout(pressTimerRef.current);
+    pressTimerRef.current = window.setTimeout(() => setPressedKey(null), 150);
+  };
+
+  /**
+   * 当前显示内容的纯文本 (不含分组空格)，用于复制
+   */
+  const displayText = (): string => {
+    const plain = (value: string) =>
+      mode === "programmer" ? formatInteger(BigInt(value), settings.radix, intFormat) : value;
+    if (calc.num !== "") return plain(calc.num);
+    if (calc.tokens.length > 0) return calc.tokens.map((t) => (isNumberToken(t) ? plain(t) : t)).join(" ");
+    return mode === "programmer" ? plain(calc.res) : formatResult(calc.res);
+  };
+
+  /**
+   * Ctrl+C：没有选中文字时复制当前显示的数值
+   */
+  const copyHandler = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (isEditableTarget(e.target)) return;
+    if (!window.getSelection()?.isCollapsed) return;
+    e.preventDefault();
+    e.clipboardData.setData("text/plain", error ? error : displayText());
+  };
+
+  /**
+   * Ctrl+V：粘贴数字或表达式；程序员模式支持 0x/0o/0b 前缀与当前进制的数字
+   */
+  const pasteHandler = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (isEditableTarget(e.target)) return;
+    const text = e.clipboardData.getData("text/plain").trim();
+    if (!text) return;
+    e.preventDefault();
+
+    if (mode === "programmer") {
+      const match = /^(-?)(0x|0o|0b)?([0-9a-f\s_]+)$/i.exec(text);
+      if (match) {
+        const prefixRadix: Record<string, Radix> = { "0x": 16, "0o": 8, "0b": 2 };
+        const radix = match[2] ? prefixRadix[match[2].toLowerCase()] : settings.radix;
+        const digits = match[3].replace(/[\s_]/g, "");
+        const valid = [...digits].every((d) => isDigitAllowed(d, radix));
+        const value = valid ? parseInteger(match[1] + digits, radix, intFormat) : null;
+        if (value !== null) return insertValue(value.toString());
+      }
+    }
+
+    try {
+      // "rate = 0.13" 形式的文本定义为变量
+      if (parseAssignment(text)) {
+        const message = defineVariable(text);
+        if (message) setError(`无法粘贴：${message}`);
+        return;
+      }
+      setExpression(pastedToTokens(text), mode);
+    } catch (err) {
+      if (!(err instanceof ExpressionError)) throw err;
+      setError(`无法粘贴：${err.message}`);
+    }
+  };
 
   return (
-    <div className="bg-white px-4 sm:px-6 py-4 font-sans">
+    <div
+      className="bg-white px-4 sm:px-6 py-4 font-sans focus:outline-none"
+      tabIndex={0}
+      onKeyDown={keyDownHandler}
+      onCopy={copyHandler}
+      onPaste={pasteHandler}
+      onFocus={() => setKeyboardActive(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setKeyboardActive(false);
+      }}
+    >
       {/* 外层滚动容器：窄屏时允许横向滚动；宽屏限制最大宽度 750px */}
-      <div className="w-full max-w-[750px] mx-auto overflow-x-auto">
+      {/* 科学与程序员模式加宽到 1000px，计算器主体与历史记录按 7:4 分配 */}
+      <div className={`w-full ${isWide ? "max-w-[1000px]" : "max-w-[750px]"} mx-auto overflow-x-auto`}>
         {/* grid 最小宽度 640px (两列各 320px)；避免被进一步挤压 */}
-        <div className="grid gap-8 grid-cols-2 min-w-[640px]">
+        <div
+          className={`grid gap-8 ${
+            isWide ? "grid-cols-[7fr_4fr] min-w-[880px]" : "grid-cols-2 min-w-[640px]"
+          }`}
+        >
+        {/* 模式与精度设置 */}
+        <div className="col-span-2 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <div className="flex rounded-lg overflow-hidden border border-gray-300">
+            {(Object.entries(modeLabels) as [CalcMode, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => changeMode(value)}
+                className={`px-3 py-1 ${
+                  mode === value ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {mode !== "programmer" && (<>
+          <label>
+            显示精度:{" "}
+            <select
+              value={settings.displayPrecision ?? "auto"}
+              onChange={(e) =>
+                setSettings({
+                  ...settings,
+                  displayPrecision: e.target.value === "auto" ? null : Number(e.target.value),
+                })
+              }
+              className="border rounded px-2 py-1"
+            >
+              {displayPrecisionOptions.map((p) => (
+                <option key={p ?? "auto"} value={p ?? "auto"}>
+                  {p === null ? "自动" : `${p} 位小数`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            舍入方式:{" "}
+            <select
+              value={settings.rounding}
+              onChange={(e) => setSettings({ ...settings, rounding: e.target.value as RoundingMode })}
+              className="border rounded px-2 py-1"
+            >
+              {roundingModes.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          </>)}
+          <span
+            className={`ml-auto text-xs ${keyboardActive ? "text-blue-500" : "text-gray-400"}`}
+            title="点击计算器区域后可使用键盘输入，Ctrl+C / Ctrl+V 复制与粘贴"
+          >
+            {keyboardActive ? "⌨ 键盘输入已启用" : "⌨ 点击计算器以使用键盘"}
+          </span>
+        </div>
         {/* 计算器主体 */}
   <div className="w-full flex flex-col min-w-[200px]">
           <Wrapper>
-            {/* 主显示说明保持不变 */}
+            {/* 主显示：错误信息 > 正在输入的数字 > 上一次结果 */}
             <Screen
               primary={
-                isHexView
-                  ? hexDisplay
-                  : calc.sign
-                  ? calc.num === 0
-                    ? "\u00A0"
-                    : calc.num
-                  : calc.num
-                  ? calc.num
-                  : calc.res
+                error
+                  ? error
+                  : calc.num !== ""
+                  ? formatNumber(calc.num)
+                  : calc.tokens.length > 0
+                  ? "\u00A0"
+                  : mode === "programmer"
+                  ? formatNumber(calc.res)
+                  : toLocaleString(formatResult(calc.res))
               }
-              secondary={(calc.sign && !isHexView) ? `${calc.res} ${calc.sign}` : ""}
+              secondary={calc.lastExpr ? `${calc.lastExpr} =` : expression}
+              isError={!!error}
+              hasMemory={memory.register !== null}
             />
-            <ButtonBox>
+            {/* 记忆键与 ans */}
+            <div className="grid grid-cols-5 gap-px bg-gray-300 border-b border-gray-300">
+              {[...memoryKeys, "ans"].map((key) => (
+                <button
+                  key={key}
+                  onClick={() => buttonClickHandler(key)}
+                  disabled={(key === "MC" || key === "MR") && memory.register === null}
+                  className="h-10 text-sm text-gray-700 bg-gray-50 hover:bg-gray-200 active:bg-gray-300 focus:outline-none disabled:text-gray-300 disabled:pointer-events-none"
+                  title={key === "ans" ? "上一次的计算结果" : undefined}
+                >
+                  {key}
+                </button>
+              ))}
+            </div>
+            <ButtonBox columns={mode === "scientific" ? 7 : mode === "programmer" ? 6 : 4}>
               {btnValues.flat().map((btn, i) => (
                 <Button
                   key={i}
                   className={getButtonClassName(btn)}
                   value={btn}
                   onClick={() => buttonClickHandler(btn)}
-                  onMouseDown={btn === "HEX" ? hexPressHandler : undefined}
-                  onMouseUp={btn === "HEX" ? hexReleaseHandler : undefined}
-                  onTouchStart={btn === "HEX" ? hexPressHandler : undefined}
-                  onTouchEnd={btn === "HEX" ? hexReleaseHandler : undefined}
+                  disabled={isButtonDisabled(btn)}
+                  pressed={pressedKey === btn}
                 />
               ))}
             </ButtonBox>
           </Wrapper>
         </div>
 
-        {/* 历史记录面板 */}
-  <div className="w-full flex flex-col min-w-[200px]">
-         <div className={`bg-gray-200 rounded-2xl p-6 ${fixedCalcHeight} border border-gray-300 flex flex-col`}> 
-            <h2 className="text-2xl font-bold text-gray-800 mb-4">历史记录</h2>
-           {history.length === 0 ? (
-             <p className="text-gray-500 text-center flex-1 flex items-center justify-center">
-               暂无计算历史
-             </p>
-           ) : (
-             <ul className="flex-1 overflow-y-auto space-y-3 pr-2">
-               {history.map((item, index) => (
-                 <li key={index} className="p-2 rounded-lg text-gray-700 text-right text-lg break-words">
-                   {item}
-                 </li>
-               ))}
-             </ul>
-           )}
-          </div>
+        {/* 变量与历史记录面板，总高度与计算器主体一致 */}
+  <div className={`w-full flex flex-col gap-4 min-w-[200px] ${fixedCalcHeight}`}>
+          <CalculatorVariables
+            variables={memory.variables}
+            register={memory.register}
+            ans={calc.res}
+            formatValue={formatValue}
+            onDefine={defineVariable}
+            onInsert={constantClickHandler}
+            onChange={(variables) => setMemory({ ...memory, variables })}
+          />
+          <CalculatorHistory
+            entries={history}
+            modeLabels={modeLabels}
+            heightClassName="flex-1 min-h-0"
+            onChange={setHistory}
+            onLoadResult={(entry) => entry.result !== "" && insertValue(entry.result)}
+            onLoadExpression={loadExpression}
+          />
         </div>
+
+        {/* 单位换算面板 */}
+        {mode === "convert" && (
+          <CalculatorConverter
+            value={currentValue()}
+            ctx={evalContext}
+            formatValue={formatValue}
+            onConvert={recordResult}
+          />
+        )}
+
+        {/* 日期时间面板 */}
+        {mode === "datetime" && (
+          <CalculatorDateTime
+            value={currentValue()}
+            ctx={evalContext}
+            formatValue={formatValue}
+            onRecord={recordResult}
+          />
+        )}
+
+        {/* 统计面板 */}
+        {mode === "stats" && (
+          <CalculatorStats
+            value={currentValue()}
+            ctx={evalContext}
+            formatValue={formatValue}
+            onInsert={insertValue}
+          />
+        )}
+
+        {/* 程序员模式面板 */}
+        {mode === "programmer" && (
+          <ProgrammerPanel
+            value={BigInt(calc.num !== "" ? calc.num : calc.tokens.length === 0 ? calc.res : "0")}
+            settings={settings}
+            onRadixChange={(radix) => setSettings({ ...settings, radix })}
+            onFormatChange={changeIntegerFormat}
+            onToggleBit={toggleBitHandler}
+          />
+        )}
         </div>
       </div>
     </div>
   );
 };
 
-export default Calculator;
\ No newline at end of file
+export default Calculator;
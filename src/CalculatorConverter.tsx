@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from "react";
+import { Decimal, type DecimalContext } from "./calcDecimal.ts";
+import {
+  convertUnit,
+  currencyCategoryId,
+  currencyUnits,
+  isValidRate,
+  loadCurrencyRates,
+  parseCurrencyRates,
+  saveCurrencyRates,
+  unitCategories,
+  type CurrencyRates,
+  type Unit,
+} from "./calcUnits.ts";
+import { downloadFile } from "./download.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 换算面板的 Props
+ */
+interface CalculatorConverterProps {
+  value: string | null; // 计算器当前显示的数值，表达式无法计算时为 null
+  ctx: DecimalContext;
+  formatValue: (value: string) => string;
+  onConvert: (result: string, expression: string, text: string) => void;
+}
+
+/**
+ * 当前选择的类别与单位
+ */
+interface ConversionSelection {
+  category: string;
+  from: string;
+  to: string;
+}
+
+const selectionKey = "calculatorConversion";
+
+const defaultSelection: ConversionSelection = { category: "length", from: "m", to: "ft" };
+
+// --- 帮助函数 ---
+
+/**
+ * 从 localStorage 读取上次选择的类别与单位
+ */
+const loadSelection = (): ConversionSelection => {
+  if (typeof window === "undefined") return defaultSelection;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(selectionKey) ?? "null");
+    return { ...defaultSelection, ...saved };
+  } catch {
+    return defaultSelection;
+  }
+};
+
+const categoryOptions = [
+  ...unitCategories.map((c) => ({ id: c.id, label: c.label })),
+  { id: currencyCategoryId, label: "货币" },
+];
+
+// --- 组件 ---
+
+/**
+ * 单位换算面板：换算计算器当前的数值，货币汇率可编辑或从 JSON 导入
+ */
+const CalculatorConverter: React.FC<CalculatorConverterProps> = ({ value, ctx, formatValue, onConvert }) => {
+  const [selection, setSelection] = useState<ConversionSelection>(loadSelection);
+  const [rates, setRates] = useState<CurrencyRates>(loadCurrencyRates);
+  const [editingRates, setEditingRates] = useState(false);
+  const [newCode, setNewCode] = useState("");
+  const [newRate, setNewRate] = useState("");
+  const [importError, setImportError] = useState("");
+
+  useEffect(() => {
+    // 持久化选择
+    window.localStorage.setItem(selectionKey, JSON.stringify(selection));
+  }, [selection]);
+
+  useEffect(() => {
+    // 持久化汇率表
+    saveCurrencyRates(rates);
+  }, [rates]);
+
+  const isCurrency = selection.category === currencyCategoryId;
+  const units: Unit[] = isCurrency
+    ? currencyUnits(rates)
+    : unitCategories.find((c) => c.id === selection.category)?.units ?? unitCategories[0].units;
+  // 选择的单位不存在时 (例如删除了某种货币) 回退到前两个单位
+  const from = units.find((u) => u.id === selection.from) ?? units[0];
+  const to = units.find((u) => u.id === selection.to) ?? units[1] ?? units[0];
+
+  const convert = (target: Unit): string | null =>
+    value === null || !from ? null : convertUnit(Decimal.parse(value), from, target, ctx).toString();
+
+  const result = to ? convert(to) : null;
+
+  const changeCategory = (category: string) => {
+    const list =
+      category === currencyCategoryId
+        ? currencyUnits(rates)
+        : unitCategories.find((c) => c.id === category)?.units ?? [];
+    setSelection({ category, from: list[0]?.id ?? "", to: list[1]?.id ?? list[0]?.id ?? "" });
+  };
+
+  const submit = () => {
+    if (value === null || result === null || !from || !to) return;
+    const expression = `${formatValue(value)} ${from.id} → ${to.id}`;
+    onConvert(result, expression, `${formatValue(value)} ${from.id} = ${formatValue(result)} ${to.id}`);
+  };
+
+  const importRates = async (file: File) => {
+    try {
+      setRates(parseCurrencyRates(await file.text()));
+      setImportError("");
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const addRate = () => {
+    const code = newCode.trim().toUpperCase();
+    if (!code || !isValidRate(newRate)) return;
+    setRates({ ...rates, rates: { ...rates.rates, [code]: newRate.trim() } });
+    setNewCode("");
+    setNewRate("");
+  };
+
+  const removeRate = (code: string) => {
+    const rest = { ...rates.rates };
+    delete rest[code];
+    setRates({ ...rates, rates: rest });
+  };
+
+  const selectClass = "border rounded px-2 py-1 bg-white";
+
+  return (
+    <div className="col-span-2 bg-gray-100 rounded-2xl border border-gray-300 p-4 flex flex-col gap-4 text-sm">
+      {/* 类别 */}
+      <div className="flex flex-wrap rounded-lg overflow-hidden border border-gray-300 self-start">
+        {categoryOptions.map((c) => (
+          <button
+            key={c.id}
+            onClick={() => changeCategory(c.id)}
+            className={`px-3 py-1 ${
+              selection.category === c.id ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"
+            }`}
+          >
+            {c.label}
+          </button>
+        ))}
+      </div>
+
+      {/* 源单位 -> 目标单位 */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono text-lg">{value === null ? "—" : formatValue(value)}</span>
+        <select
+          value={from?.id ?? ""}
+          onChange={(e) => setSelection({ ...selection, from: e.target.value })}
+          className={selectClass}
+        >
+          {units.map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setSelection({ ...selection, from: to?.id ?? "", to: from?.id ?? "" })}
+          className="px-2 py-1 rounded hover:bg-gray-200"
+          title="交换"
+        >
+          ⇄
+        </button>
+        <select
+          value={to?.id ?? ""}
+          onChange={(e) => setSelection({ ...selection, to: e.target.value })}
+          className={selectClass}
+        >
+          {units.map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.label}
+            </option>
+          ))}
+        </select>
+        <span className="font-mono text-lg">= {result === null ? "—" : formatValue(result)}</span>
+        <button
+          onClick={submit}
+          disabled={result === null}
+          className="ml-auto px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+          title="将结果写入计算器与历史记录"
+        >
+          换算
+        </button>
+      </div>
+      {value === null && <p className="text-xs text-gray-500">当前表达式无法计算，请先补全表达式</p>}
+
+      {/* 换算到同类别的所有单位，点击设为目标单位 */}
+      {value !== null && from && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-1">
+          {units.map((u) => (
+            <button
+              key={u.id}
+              onClick={() => setSelection({ ...selection, from: from.id, to: u.id })}
+              className={`flex justify-between gap-2 px-3 py-1 rounded-md text-left ${
+                u.id === to?.id ? "bg-blue-500 text-white" : "hover:bg-gray-200"
+              }`}
+            >
+              <span className="truncate">{u.label}</span>
+              <span className="font-mono truncate">{formatValue(convert(u) ?? "0")}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* 汇率表 */}
+      {isCurrency && (
+        <div className="flex flex-col gap-2 border-t border-gray-300 pt-3 text-gray-600">
+          <div className="flex flex-wrap items-center gap-2">
+            <span>
+              基准货币 {rates.base}
+              {rates.updated && `，更新于 ${rates.updated}`}
+            </span>
+            <button
+              onClick={() => setEditingRates(!editingRates)}
+              className="ml-auto px-2 py-1 rounded bg-white hover:bg-gray-200"
+            >
+              {editingRates ? "完成" : "编辑汇率"}
+            </button>
+            <label className="px-2 py-1 rounded bg-white hover:bg-gray-200 cursor-pointer">
+              导入 JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importRates(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              onClick={() => downloadFile("currency-rates.json", JSON.stringify(rates, null, 2), "application/json")}
+              className="px-2 py-1 rounded bg-white hover:bg-gray-200"
+            >
+              导出 JSON
+            </button>
+          </div>
+          {importError && <p className="text-xs text-red-500">导入失败：{importError}</p>}
+
+          {editingRates && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {Object.entries(rates.rates).map(([code, rate]) => (
+                <div key={code} className="flex items-center gap-1">
+                  <span className="w-12 font-mono">{code}</span>
+                  <input
+                    value={rate}
+                    disabled={code === rates.base}
+                    onChange={(e) => setRates({ ...rates, rates: { ...rates.rates, [code]: e.target.value } })}
+                    className={`w-full min-w-0 border rounded px-2 py-0.5 font-mono ${
+                      isValidRate(rate) ? "" : "border-red-400"
+                    }`}
+                  />
+                  {code !== rates.base && (
+                    <button
+                      onClick={() => removeRate(code)}
+                      className="px-1 rounded text-gray-400 hover:bg-gray-300 hover:text-red-600"
+                      title="删除货币"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              <div className="flex items-center gap-1">
+                <input
+                  value={newCode}
+                  onChange={(e) => setNewCode(e.target.value)}
+                  placeholder="代码"
+                  className="w-16 border rounded px-2 py-0.5 font-mono uppercase"
+                />
+                <input
+                  value={newRate}
+                  onChange={(e) => setNewRate(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") addRate();
+                  }}
+                  placeholder="汇率"
+                  className="w-full min-w-0 border rounded px-2 py-0.5 font-mono"
+                />
+                <button onClick={addRate} className="px-2 rounded bg-white hover:bg-gray-200">
+                  添加
+                </button>
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-gray-400">汇率为 1 {rates.base} 可兑换的数量；离线使用，请自行更新。</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalculatorConverter;
@@ -0,0 +1,332 @@
+import React, { useState } from "react";
+import type { DecimalContext } from "./calcDecimal.ts";
+import {
+  addDuration,
+  diffIn,
+  durationUnits,
+  formatDuration,
+  formatIso,
+  formatOffset,
+  formatWallTime,
+  instantToWallTime,
+  localTimeZone,
+  nowWallTime,
+  parseEpoch,
+  parseWallTime,
+  timeZones,
+  toInputValue,
+  wallTimeToInstant,
+  zoneOffset,
+  type DurationUnit,
+} from "./calcDate.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 日期时间面板的 Props
+ */
+interface CalculatorDateTimeProps {
+  value: string | null; // 计算器当前显示的数值，可作为时长或时间戳
+  ctx: DecimalContext;
+  formatValue: (value: string) => string;
+  // result 为数值结果 (写入计算器)，日期类结果为 null，只记录到历史
+  onRecord: (result: string | null, expression: string, text: string) => void;
+}
+
+type DateTab = "diff" | "add" | "zone" | "epoch";
+
+const tabs: { value: DateTab; label: string }[] = [
+  { value: "diff", label: "日期间隔" },
+  { value: "add", label: "日期加减" },
+  { value: "zone", label: "时区换算" },
+  { value: "epoch", label: "时间戳" },
+];
+
+// --- 帮助函数 ---
+
+/**
+ * 执行可能抛出 RangeError 的计算，出错时返回错误信息
+ */
+const attempt = <T,>(fn: () => T): { value: T; error: "" } | { value: null; error: string } => {
+  try {
+    return { value: fn(), error: "" };
+  } catch (e) {
+    if (!(e instanceof RangeError)) throw e;
+    return { value: null, error: e.message };
+  }
+};
+
+const unitLabel = (unit: DurationUnit): string => durationUnits.find((u) => u.value === unit)!.label;
+
+// --- 组件 ---
+
+/**
+ * 日期时间面板：日期间隔、加减时长、时区换算与 Unix 时间戳
+ */
+const CalculatorDateTime: React.FC<CalculatorDateTimeProps> = ({ value, ctx, formatValue, onRecord }) => {
+  const [tab, setTab] = useState<DateTab>("diff");
+  const [start, setStart] = useState(() => toInputValue(nowWallTime()));
+  const [end, setEnd] = useState(() => toInputValue(nowWallTime()));
+  const [diffUnit, setDiffUnit] = useState<DurationUnit>("day");
+  const [amount, setAmount] = useState("1");
+  const [subtract, setSubtract] = useState(false);
+  const [addUnit, setAddUnit] = useState<DurationUnit>("businessDay");
+  const [fromZone, setFromZone] = useState(localTimeZone);
+  const [toZone, setToZone] = useState("UTC");
+  const [epoch, setEpoch] = useState(() => String(Math.floor(Date.now() / 1000)));
+  const [epochUnit, setEpochUnit] = useState<"s" | "ms">("s");
+
+  const zones = timeZones();
+  const startMs = parseWallTime(start);
+  const endMs = parseWallTime(end);
+
+  const inputClass = "border rounded px-2 py-1 bg-white";
+  const recordClass = "ml-auto px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50";
+  const valueButton = (apply: (value: string) => void) => (
+    <button
+      onClick={() => value !== null && apply(value)}
+      disabled={value === null}
+      className="px-2 py-1 rounded bg-white hover:bg-gray-200 disabled:opacity-50"
+      title="使用计算器当前的数值"
+    >
+      使用计算器的值
+    </button>
+  );
+  const zoneSelect = (zone: string, onChange: (zone: string) => void) => (
+    <select value={zone} onChange={(e) => onChange(e.target.value)} className={`${inputClass} max-w-[14rem]`}>
+      {zones.map((z) => (
+        <option key={z} value={z}>
+          {z}
+        </option>
+      ))}
+    </select>
+  );
+
+  // 日期间隔
+  const renderDiff = () => {
+    const diff =
+      startMs === null || endMs === null
+        ? null
+        : attempt(() => diffIn(startMs, endMs, diffUnit, ctx).toString());
+    const record = () => {
+      if (startMs === null || endMs === null || !diff?.value) return;
+      const label = unitLabel(diffUnit);
+      onRecord(
+        diff.value,
+        `${start} → ${end} (${label})`,
+        `${formatWallTime(startMs)} → ${formatWallTime(endMs)} = ${formatValue(diff.value)} ${label}`
+      );
+    };
+    return (
+      <>
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+          <span>→</span>
+          <input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClass} />
+          <select value={diffUnit} onChange={(e) => setDiffUnit(e.target.value as DurationUnit)} className={inputClass}>
+            {durationUnits.map((u) => (
+              <option key={u.value} value={u.value}>
+                {u.label}
+              </option>
+            ))}
+          </select>
+          <button onClick={record} disabled={!diff?.value} className={recordClass}>
+            记录
+          </button>
+        </div>
+        {startMs !== null && endMs !== null && diff && (
+          <p className="font-mono text-lg">
+            {diff.value !== null ? `= ${formatValue(diff.value)} ${unitLabel(diffUnit)}` : diff.error}
+            <span className="ml-4 text-sm text-gray-500">{formatDuration(endMs - startMs)}</span>
+          </p>
+        )}
+      </>
+    );
+  };
+
+  // 日期加减
+  const renderAdd = () => {
+    const n = Number(amount);
+    const result =
+      startMs === null || amount.trim() === "" || Number.isNaN(n)
+        ? null
+        : attempt(() => addDuration(startMs, subtract ? -n : n, addUnit));
+    const record = () => {
+      if (startMs === null || result?.value == null) return;
+      const expression = `${formatWallTime(startMs)} ${subtract ? "−" : "+"} ${amount} ${unitLabel(addUnit)}`;
+      onRecord(null, expression, `${expression} = ${formatWallTime(result.value)}`);
+    };
+    return (
+      <>
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+          <div className="flex rounded-lg overflow-hidden border border-gray-300">
+            {[false, true].map((minus) => (
+              <button
+                key={String(minus)}
+                onClick={() => setSubtract(minus)}
+                className={`px-3 py-1 ${subtract === minus ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"}`}
+              >
+                {minus ? "−" : "+"}
+              </button>
+            ))}
+          </div>
+          <input value={amount} onChange={(e) => setAmount(e.target.value)} className={`${inputClass} w-24 font-mono`} />
+          <select value={addUnit} onChange={(e) => setAddUnit(e.target.value as DurationUnit)} className={inputClass}>
+            {durationUnits.map((u) => (
+              <option key={u.value} value={u.value}>
+                {u.label}
+              </option>
+            ))}
+          </select>
+          {valueButton(setAmount)}
+          <button onClick={record} disabled={result?.value == null} className={recordClass}>
+            记录
+          </button>
+        </div>
+        {result && (
+          <p className="font-mono text-lg">{result.value !== null ? `= ${formatWallTime(result.value)}` : result.error}</p>
+        )}
+      </>
+    );
+  };
+
+  // 时区换算
+  const renderZone = () => {
+    const converted =
+      startMs === null
+        ? null
+        : attempt(() => {
+            const instant = wallTimeToInstant(startMs, fromZone);
+            return { instant, wall: instantToWallTime(instant, toZone) };
+          });
+    const describe = (wall: number, instant: number, zone: string) =>
+      `${formatWallTime(wall)} ${zone} (${formatOffset(zoneOffset(instant, zone))})`;
+    const record = () => {
+      if (startMs === null || !converted?.value) return;
+      const { instant, wall } = converted.value;
+      const expression = describe(startMs, instant, fromZone);
+      onRecord(null, expression, `${expression} = ${describe(wall, instant, toZone)}`);
+    };
+    return (
+      <>
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+          {zoneSelect(fromZone, setFromZone)}
+          <button
+            onClick={() => {
+              setFromZone(toZone);
+              setToZone(fromZone);
+            }}
+            className="px-2 py-1 rounded hover:bg-gray-200"
+            title="交换"
+          >
+            ⇄
+          </button>
+          {zoneSelect(toZone, setToZone)}
+          <button onClick={record} disabled={!converted?.value} className={recordClass}>
+            记录
+          </button>
+        </div>
+        {converted && (
+          <p className="font-mono text-lg">
+            {converted.value !== null
+              ? `= ${describe(converted.value.wall, converted.value.instant, toZone)}`
+              : converted.error}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  // Unix 时间戳 <-> 日期
+  const renderEpoch = () => {
+    const instant = epoch.trim() === "" ? null : attempt(() => parseEpoch(epoch.trim(), epochUnit));
+    const fromDate = startMs === null ? null : attempt(() => wallTimeToInstant(startMs, fromZone));
+    const toEpoch = (ms: number) => String(epochUnit === "s" ? ms / 1000 : ms);
+
+    const recordDate = () => {
+      if (instant?.value == null) return;
+      const local = formatWallTime(instantToWallTime(instant.value, fromZone));
+      onRecord(null, `${epoch} ${epochUnit}`, `${epoch} ${epochUnit} = ${formatIso(instant.value)} (${fromZone} ${local})`);
+    };
+    const recordEpoch = () => {
+      if (startMs === null || fromDate?.value == null) return;
+      const result = toEpoch(fromDate.value);
+      const expression = `${formatWallTime(startMs)} ${fromZone}`;
+      onRecord(result, `${expression} → ${epochUnit}`, `${expression} = ${result} ${epochUnit}`);
+    };
+
+    return (
+      <>
+        <div className="flex flex-wrap items-center gap-2">
+          <span>时区</span>
+          {zoneSelect(fromZone, setFromZone)}
+          <div className="flex rounded-lg overflow-hidden border border-gray-300">
+            {(["s", "ms"] as const).map((unit) => (
+              <button
+                key={unit}
+                onClick={() => setEpochUnit(unit)}
+                className={`px-3 py-1 ${epochUnit === unit ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"}`}
+              >
+                {unit === "s" ? "秒" : "毫秒"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* 时间戳 -> 日期 */}
+        <div className="flex flex-wrap items-center gap-2">
+          <input value={epoch} onChange={(e) => setEpoch(e.target.value)} className={`${inputClass} w-48 font-mono`} />
+          {valueButton(setEpoch)}
+          <span className="font-mono">
+            {instant?.value != null
+              ? `= ${formatIso(instant.value)}  ${formatWallTime(instantToWallTime(instant.value, fromZone))}`
+              : instant?.error}
+          </span>
+          <button onClick={recordDate} disabled={instant?.value == null} className={recordClass}>
+            记录
+          </button>
+        </div>
+
+        {/* 日期 -> 时间戳 */}
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+          <span className="font-mono">
+            {fromDate?.value != null ? `= ${toEpoch(fromDate.value)} ${epochUnit}` : fromDate?.error}
+          </span>
+          <button onClick={recordEpoch} disabled={fromDate?.value == null} className={recordClass}>
+            记录
+          </button>
+        </div>
+      </>
+    );
+  };
+
+  const renderers: Record<DateTab, () => React.ReactNode> = {
+    diff: renderDiff,
+    add: renderAdd,
+    zone: renderZone,
+    epoch: renderEpoch,
+  };
+
+  return (
+    <div className="col-span-2 bg-gray-100 rounded-2xl border border-gray-300 p-4 flex flex-col gap-4 text-sm">
+      <div className="flex rounded-lg overflow-hidden border border-gray-300 self-start">
+        {tabs.map((t) => (
+          <button
+            key={t.value}
+            onClick={() => setTab(t.value)}
+            className={`px-3 py-1 ${tab === t.value ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+      {renderers[tab]()}
+      <p className="text-xs text-gray-400">工作日按周一至周五计算，不含法定节假日；间隔不含起始日、含结束日。</p>
+    </div>
+  );
+};
+
+export default CalculatorDateTime;
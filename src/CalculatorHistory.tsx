@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import {
+  filterHistory,
+  historyToCsv,
+  historyToJson,
+  type HistoryEntry,
+  type HistoryFilter,
+} from "./calcHistory.ts";
+import { downloadFile } from "./download.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 历史记录面板的 Props
+ */
+interface CalculatorHistoryProps {
+  entries: HistoryEntry[];
+  modeLabels: Record<string, string>; // 模式 -> 中文名称，用于筛选与标签
+  heightClassName: string; // 高度样式，与变量面板一起占满计算器主体的高度
+  onChange: (entries: HistoryEntry[]) => void;
+  onLoadResult: (entry: HistoryEntry) => void;
+  onLoadExpression: (entry: HistoryEntry) => void;
+}
+
+// --- 帮助函数 ---
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString("zh-CN", { hour12: false });
+
+const exportName = (ext: string): string =>
+  `calculator-history-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+// --- 组件 ---
+
+/**
+ * 计算器历史记录面板：点击载入、置顶、备注、删除、搜索与导出
+ */
+const CalculatorHistory: React.FC<CalculatorHistoryProps> = ({
+  entries,
+  modeLabels,
+  heightClassName,
+  onChange,
+  onLoadResult,
+  onLoadExpression,
+}) => {
+  const [filter, setFilter] = useState<HistoryFilter>({ query: "", mode: "", pinnedOnly: false });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState("");
+
+  const visible = filterHistory(entries, filter);
+
+  const updateEntry = (id: string, patch: Partial<HistoryEntry>) => {
+    onChange(entries.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+  };
+
+  const startEditNote = (entry: HistoryEntry) => {
+    setEditingId(entry.id);
+    setNoteDraft(entry.note);
+  };
+
+  const saveNote = () => {
+    if (editingId) updateEntry(editingId, { note: noteDraft.trim() });
+    setEditingId(null);
+  };
+
+  const actionClass = "px-1.5 py-0.5 rounded hover:bg-gray-300 text-gray-600";
+
+  return (
+    <div className={`bg-gray-200 rounded-2xl p-6 ${heightClassName} border border-gray-300 flex flex-col`}>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-2xl font-bold text-gray-800">历史记录</h2>
+        <div className="flex gap-1 text-xs">
+          <button
+            className="px-2 py-1 rounded bg-white hover:bg-gray-100 disabled:opacity-50"
+            disabled={visible.length === 0}
+            onClick={() => downloadFile(exportName("csv"), historyToCsv(visible), "text/csv;charset=utf-8")}
+          >
+            CSV
+          </button>
+          <button
+            className="px-2 py-1 rounded bg-white hover:bg-gray-100 disabled:opacity-50"
+            disabled={visible.length === 0}
+            onClick={() => downloadFile(exportName("json"), historyToJson(visible), "application/json")}
+          >
+            JSON
+          </button>
+          <button
+            className="px-2 py-1 rounded bg-white hover:bg-gray-100 disabled:opacity-50"
+            disabled={entries.every((e) => e.pinned)}
+            onClick={() => onChange(entries.filter((e) => e.pinned))}
+            title="清空未置顶的记录"
+          >
+            清空
+          </button>
+        </div>
+      </div>
+
+      {/* 搜索与筛选 */}
+      <div className="flex gap-2 mb-3 text-sm">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+          placeholder="搜索表达式或备注"
+          className="flex-1 min-w-0 border rounded px-2 py-1"
+        />
+        <select
+          value={filter.mode}
+          onChange={(e) => setFilter({ ...filter, mode: e.target.value })}
+          className="border rounded px-1 py-1"
+        >
+          <option value="">全部</option>
+          {Object.entries(modeLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setFilter({ ...filter, pinnedOnly: !filter.pinnedOnly })}
+          className={`px-2 rounded ${filter.pinnedOnly ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"}`}
+          title="仅显示置顶"
+        >
+          📌
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-gray-500 text-center flex-1 flex items-center justify-center">
+          {entries.length === 0 ? "暂无计算历史" : "没有匹配的记录"}
+        </p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto space-y-3 pr-2">
+          {visible.map((entry) => (
+            <li
+              key={entry.id}
+              className={`p-2 rounded-lg text-gray-700 text-right ${entry.pinned ? "bg-yellow-50" : ""}`}
+            >
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>{modeLabels[entry.mode] ?? entry.mode}</span>
+                <span>
+                  {entry.pinned && "📌 "}
+                  {formatTime(entry.timestamp)}
+                </span>
+              </div>
+              {/* 点击整行载入结果 */}
+              <button
+                onClick={() => onLoadResult(entry)}
+                className="block w-full text-right text-lg break-words hover:text-blue-600"
+                title="载入结果"
+              >
+                {entry.text}
+              </button>
+              {editingId === entry.id ? (
+                <input
+                  autoFocus
+                  value={noteDraft}
+                  onChange={(e) => setNoteDraft(e.target.value)}
+                  onBlur={saveNote}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveNote();
+                    else if (e.key === "Escape") setEditingId(null);
+                  }}
+                  placeholder="添加备注"
+                  className="w-full border rounded px-2 py-0.5 text-sm"
+                />
+              ) : (
+                entry.note && <p className="text-sm text-gray-500 italic break-words">{entry.note}</p>
+              )}
+              <div className="flex justify-end gap-1 text-xs mt-1">
+                {entry.tokens.length > 0 && (
+                  <button className={actionClass} onClick={() => onLoadExpression(entry)}>
+                    载入表达式
+                  </button>
+                )}
+                <button className={actionClass} onClick={() => updateEntry(entry.id, { pinned: !entry.pinned })}>
+                  {entry.pinned ? "取消置顶" : "置顶"}
+                </button>
+                <button className={actionClass} onClick={() => startEditNote(entry)}>
+                  备注
+                </button>
+                <button
+                  className={`${actionClass} hover:text-red-600`}
+                  onClick={() => onChange(entries.filter((e) => e.id !== entry.id))}
+                >
+                  删除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CalculatorHistory;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from "react";
+import { Decimal, type DecimalContext } from "./calcDecimal.ts";
+import {
+  histogram,
+  linearRegression,
+  parseNumberList,
+  parsePairs,
+  summarize,
+  type HistogramBin,
+  type Regression,
+  type Summary,
+} from "./calcStats.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 统计面板的 Props
+ */
+interface CalculatorStatsProps {
+  value: string | null; // 计算器当前显示的数值，可追加到数据中
+  ctx: DecimalContext;
+  formatValue: (value: string) => string;
+  onInsert: (value: string) => void; // 将统计值送回计算器作为当前数字
+}
+
+/**
+ * 数据格式：单列数字或 x / y 两列
+ */
+type DataKind = "list" | "pairs";
+
+interface StatsData {
+  kind: DataKind;
+  text: string;
+}
+
+const storageKey = "calculatorStatsData";
+
+const defaultData: StatsData = { kind: "list", text: "" };
+
+// --- 帮助函数 ---
+
+/**
+ * 从 localStorage 读取上次输入的数据
+ */
+const loadData = (): StatsData => {
+  if (typeof window === "undefined") return defaultData;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey) ?? "null");
+    return { ...defaultData, ...saved };
+  } catch {
+    return defaultData;
+  }
+};
+
+/**
+ * 面板中逐项列出的统计值；样本方差等可能无定义
+ */
+const summaryRows = (s: Summary): { label: string; value: Decimal | null }[] => [
+  { label: "个数 n", value: new Decimal(BigInt(s.count)) },
+  { label: "总和 Σx", value: s.sum },
+  { label: "平均数", value: s.mean },
+  { label: "中位数", value: s.median },
+  { label: "最小值", value: s.min },
+  { label: "最大值", value: s.max },
+  { label: "下四分位数 Q1", value: s.q1 },
+  { label: "上四分位数 Q3", value: s.q3 },
+  { label: "样本方差 s²", value: s.sampleVariance },
+  { label: "样本标准差 s", value: s.sampleSd },
+  { label: "总体方差 σ²", value: s.populationVariance },
+  { label: "总体标准差 σ", value: s.populationSd },
+];
+
+const regressionRows = (r: Regression): { label: string; value: Decimal }[] => [
+  { label: "斜率 a", value: r.slope },
+  { label: "截距 b", value: r.intercept },
+  { label: "相关系数 r", value: r.r },
+  { label: "决定系数 r²", value: r.r2 },
+];
+
+// --- 组件 ---
+
+/**
+ * 统计面板：输入或粘贴数据，计算描述统计、线性回归并绘制直方图
+ */
+const CalculatorStats: React.FC<CalculatorStatsProps> = ({ value, ctx, formatValue, onInsert }) => {
+  const [data, setData] = useState<StatsData>(loadData);
+
+  useEffect(() => {
+    // 持久化数据
+    window.localStorage.setItem(storageKey, JSON.stringify(data));
+  }, [data]);
+
+  // 解析与计算；数据为空时不显示错误
+  let values: Decimal[] = [];
+  let summary: Summary | null = null;
+  let regression: Regression | null = null;
+  let bins: HistogramBin[] = [];
+  let error = "";
+  try {
+    if (data.text.trim()) {
+      if (data.kind === "pairs") {
+        const { x, y } = parsePairs(data.text);
+        values = y;
+        summary = summarize(y, ctx);
+        regression = linearRegression(x, y, ctx);
+      } else {
+        values = parseNumberList(data.text);
+        summary = summarize(values, ctx);
+      }
+      bins = histogram(values);
+    }
+  } catch (e) {
+    if (!(e instanceof RangeError)) throw e;
+    error = e.message;
+  }
+
+  const highest = Math.max(1, ...bins.map((b) => b.count));
+
+  const appendValue = () => {
+    if (value === null) return;
+    const separator = data.text === "" || data.text.endsWith("\n") ? "" : "\n";
+    setData({ ...data, text: data.text + separator + value });
+  };
+
+  const row = (label: string, v: Decimal | null, text?: string) => (
+    <div key={label} className="flex items-center justify-between gap-2 px-2 py-0.5 rounded hover:bg-gray-200">
+      <span className="text-gray-600">{label}</span>
+      <span className="flex items-center gap-1 min-w-0">
+        <span className="font-mono truncate">{text ?? (v ? formatValue(v.toString()) : "—")}</span>
+        {v && (
+          <button
+            onClick={() => onInsert(v.toString())}
+            className="px-1.5 rounded text-blue-600 hover:bg-gray-300"
+            title="送到计算器"
+          >
+            →
+          </button>
+        )}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="col-span-2 bg-gray-100 rounded-2xl border border-gray-300 p-4 grid grid-cols-2 gap-4 text-sm">
+      {/* 数据输入 */}
+      <div className="flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-lg overflow-hidden border border-gray-300">
+            {(
+              [
+                ["list", "单列数据"],
+                ["pairs", "x y 两列"],
+              ] as [DataKind, string][]
+            ).map(([kind, label]) => (
+              <button
+                key={kind}
+                onClick={() => setData({ ...data, kind })}
+                className={`px-3 py-1 ${data.kind === kind ? "bg-blue-500 text-white" : "bg-white hover:bg-gray-100"}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {data.kind === "list" && (
+            <button
+              onClick={appendValue}
+              disabled={value === null}
+              className="px-2 py-1 rounded bg-white hover:bg-gray-200 disabled:opacity-50"
+              title="将计算器当前的数值追加到数据"
+            >
+              追加当前值
+            </button>
+          )}
+          <button
+            onClick={() => setData({ ...data, text: "" })}
+            disabled={!data.text}
+            className="ml-auto px-2 py-1 rounded bg-white hover:bg-gray-200 disabled:opacity-50"
+          >
+            清空
+          </button>
+        </div>
+        <textarea
+          value={data.text}
+          onChange={(e) => setData({ ...data, text: e.target.value })}
+          placeholder={
+            data.kind === "pairs" ? "每行一组 x y，例如\n1 2.1\n2 3.9" : "以空格、逗号或换行分隔，例如\n3, 5, 8, 13"
+          }
+          className="h-48 border rounded px-2 py-1 font-mono resize-y"
+        />
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {/* 直方图 */}
+        {bins.length > 0 && (
+          <div className="flex items-end gap-px h-24 border-b border-gray-400" title="直方图">
+            {bins.map((bin, i) => (
+              <div
+                key={i}
+                className="flex-1 bg-blue-400 hover:bg-blue-500"
+                style={{ height: `${(bin.count / highest) * 100}%` }}
+                title={`${formatValue(String(bin.from))} ~ ${formatValue(String(bin.to))}：${bin.count}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* 统计结果 */}
+      <div className="flex flex-col gap-1 overflow-y-auto max-h-80">
+        {summary ? (
+          <>
+            {data.kind === "pairs" && <p className="text-xs text-gray-500">以下统计针对 y 列</p>}
+            {summaryRows(summary).map((r) => row(r.label, r.value))}
+            {row(
+              "众数",
+              summary.modes.length === 1 ? summary.modes[0] : null,
+              summary.modes.length === 0 ? "无" : summary.modes.map((m) => formatValue(m.toString())).join(", ")
+            )}
+            {regression && (
+              <>
+                <p className="text-xs text-gray-500 mt-2">线性回归 y = a·x + b</p>
+                {regressionRows(regression).map((r) => row(r.label, r.value))}
+              </>
+            )}
+          </>
+        ) : (
+          <p className="text-gray-500 text-center my-auto">{error ? "" : "输入数据后显示统计结果"}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalculatorStats;
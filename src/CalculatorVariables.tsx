@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import type { Variables } from "./calcExpression.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 变量面板的 Props
+ */
+interface CalculatorVariablesProps {
+  variables: Variables;
+  register: string | null; // M 寄存器
+  ans: string; // 上一次的计算结果
+  formatValue: (value: string) => string;
+  onDefine: (input: string) => string | null; // 返回错误信息，成功时返回 null
+  onInsert: (name: string) => void;
+  onChange: (variables: Variables) => void;
+}
+
+// --- 组件 ---
+
+/**
+ * 变量面板：定义 "名称 = 表达式" 形式的变量，点击名称插入到表达式中
+ */
+const CalculatorVariables: React.FC<CalculatorVariablesProps> = ({
+  variables,
+  register,
+  ans,
+  formatValue,
+  onDefine,
+  onInsert,
+  onChange,
+}) => {
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState("");
+
+  const names = Object.keys(variables).sort();
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    const message = onDefine(draft);
+    setError(message ?? "");
+    if (message === null) setDraft("");
+  };
+
+  const remove = (name: string) => {
+    const rest = { ...variables };
+    delete rest[name];
+    onChange(rest);
+  };
+
+  const nameClass = "font-mono text-blue-600 hover:underline";
+
+  return (
+    <div className="bg-gray-200 rounded-2xl p-4 border border-gray-300 flex flex-col max-h-64 shrink-0">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-bold text-gray-800">变量</h2>
+        <button
+          className="px-2 py-1 rounded bg-white hover:bg-gray-100 disabled:opacity-50 text-xs"
+          disabled={names.length === 0}
+          onClick={() => onChange({})}
+        >
+          清空
+        </button>
+      </div>
+
+      <input
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setError("");
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit();
+        }}
+        placeholder="rate = 0.13，回车保存"
+        className="w-full border rounded px-2 py-1 text-sm font-mono"
+      />
+      {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+
+      <ul className="mt-2 overflow-y-auto text-sm space-y-1 pr-1">
+        {/* 内置的 ans 与 M 寄存器只读显示 */}
+        <li className="flex justify-between gap-2 text-gray-500">
+          <button className={nameClass} onClick={() => onInsert("ans")} title="插入上一次结果">
+            ans
+          </button>
+          <span className="truncate">{formatValue(ans)}</span>
+        </li>
+        {register !== null && (
+          <li className="flex justify-between gap-2 text-gray-500">
+            <span className="font-mono">M</span>
+            <span className="truncate">{formatValue(register)}</span>
+          </li>
+        )}
+        {names.map((name) => (
+          <li key={name} className="flex justify-between items-center gap-2 text-gray-700">
+            <button className={nameClass} onClick={() => onInsert(name)} title="插入到表达式">
+              {name}
+            </button>
+            <span className="flex items-center gap-1 min-w-0">
+              <span className="truncate">{formatValue(variables[name])}</span>
+              <button
+                className="px-1 rounded text-gray-400 hover:bg-gray-300 hover:text-red-600"
+                onClick={() => remove(name)}
+                title="删除变量"
+              >
+                ×
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CalculatorVariables;
@@ -1,71 +1,12 @@
-import React, { useState, useEffect } from 'react';
-
-// --- 类型定义 ---
-
-interface ColorData {
-  r: number;
-  g: number;
-  b: number;
-  a: number; // 将始终为 255，因为 sRGBHex 不含 alpha
-}
-
-// --- 帮助函数 ---
-
-/**
- * 将 RGB 颜色转换为 Hex 字符串
- */
-function rgbToHex(r: number, g: number, b: number): string {
-  return "#" + [r, g, b].map(x => {
-    const hex = x.toString(16);
-    return hex.length === 1 ? '0' + hex : hex;
-  }).join('').toUpperCase();
-}
-
-/**
- * 将 Hex 字符串 (#RRGGBB) 转换为 ColorData
- */
-function hexToRgba(hex: string): ColorData {
-  let hexValue = hex.replace('#', '');
-
-  // 处理缩写 (例如 #03F)
-  if (hexValue.length === 3) {
-    hexValue = hexValue.split('').map(char => char + char).join('');
-  }
-
-  const r = parseInt(hexValue.substring(0, 2), 16);
-  const g = parseInt(hexValue.substring(2, 4), 16);
-  const b = parseInt(hexValue.substring(4, 6), 16);
-
-  return { r, g, b, a: 255 }; // sRGBHex 不包含 alpha
-}
-
-/**
- * 将文本复制到剪贴板（兼容 iFrame）
- */
-function copyToClipboard(text: string): boolean {
-  const textarea = document.createElement('textarea');
-  textarea.value = text;
-  
-  // 设置为不可见并添加到 DOM
-  textarea.style.position = 'absolute';
-  textarea.style.left = '-9999px';
-  textarea.style.opacity = '0';
-  document.body.appendChild(textarea);
-  
-  textarea.select();
-  textarea.focus(); // 确保选中
-  
-  try {
-    // 使用 document.execCommand
-    const success = document.execCommand('copy');
-    return success;
-  } catch (err) {
-    console.error('无法复制文本: ', err);
-    return false;
-  } finally {
-    document.body.removeChild(textarea);
-  }
-}
+import React, { useEffect, useState } from 'react';
+import { copyToClipboard } from './clipboard.ts';
+import EyedropperContrast from './EyedropperContrast.tsx';
+import EyedropperImage from './EyedropperImage.tsx';
+import EyedropperPalettes from './EyedropperPalettes.tsx';
+import EyedropperScales from './EyedropperScales.tsx';
+import EyedropperVision from './EyedropperVision.tsx';
+import { addToHistory, loadHistory, loadPalettes, saveHistory, savePalettes, type Palette } from './colorPalettes.ts';
+import { colorFormats, hexToRgba, rgbToHex, toColorData, type ColorData, type ColorFormat } from './colorSpaces.ts';
 
 // --- 扩展 window 类型以包含 EyeDropper ---
 declare global {
@@ -105,9 +46,49 @@ const CopyButton: React.FC<{ textToCopy: string }> = ({ textToCopy }) => {
 
 
 /**
- * ColorDisplay 组件用于显示颜色信息
+ * ColorField 组件：显示一种格式的颜色值，可直接编辑，输入有效时更新颜色
+ */
+const ColorField: React.FC<{
+  format: ColorFormat;
+  color: ColorData;
+  onChange: (color: ColorData) => void;
+}> = ({ format, color, onChange }) => {
+  // 正在编辑的文本；为 null 时显示由颜色换算出的值
+  const [draft, setDraft] = useState<string | null>(null);
+  const value = format.format(color);
+  const invalid = draft !== null && format.parse(draft) === null;
+
+  return (
+    <div className="flex items-center gap-2 mb-2">
+      <label className="w-20 shrink-0 text-xs font-medium text-gray-500">{format.label}</label>
+      <div className="relative flex-1 min-w-0">
+        <input
+          value={draft ?? value}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            const parsed = format.parse(e.target.value);
+            if (parsed) onChange(toColorData(parsed));
+          }}
+          onBlur={() => setDraft(null)}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          spellCheck={false}
+          className={`w-full font-mono text-sm bg-gray-100 p-2 pr-16 rounded border focus:bg-white focus:outline-none ${
+            invalid ? 'border-red-400' : 'border-transparent focus:border-blue-400'
+          }`}
+        />
+        <CopyButton textToCopy={value} />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * ColorDisplay 组件用于显示颜色信息；各格式的值都可以编辑
  */
-const ColorDisplay: React.FC<{ color: ColorData | null }> = ({ color }) => {
+const ColorDisplay: React.FC<{
+  color: ColorData | null;
+  onChange: (color: ColorData) => void;
+}> = ({ color, onChange }) => {
   if (!color) {
     return (
       <div className="mb-4">
@@ -119,34 +100,20 @@ const ColorDisplay: React.FC<{ color: ColorData | null }> = ({ color }) => {
     );
   }
 
-  const { r, g, b} = color;
-  const hex = rgbToHex(r, g, b);
+  const { r, g, b } = color;
   // EyeDropper API 总是返回不透明的颜色, 所以 alpha 是 1.
-  // 我们将显示更简单的 rgb() 字符串。
-  const rgbString = `rgb(${r},${g},${b})`;
   const background = `rgb(${r}, ${g}, ${b})`;
 
   return (
     <div className="mb-4">
       <h3 className="font-semibold text-lg text-gray-700 mb-2">选中颜色</h3>
-      <div 
+      <div
         className="w-full h-24 border border-gray-300 rounded-md shadow-inner mb-4"
         style={{ backgroundColor: background }}
       ></div>
-      <div className="mb-2">
-        <label className="text-xs font-medium text-gray-500">HEX</label>
-        <div className="relative font-mono bg-gray-100 p-2 rounded">
-          <code>{hex}</code>
-          <CopyButton textToCopy={hex} />
-        </div>
-      </div>
-      <div>
-        <label className="text-xs font-medium text-gray-500">RGB</label>
-        <div className="relative font-mono bg-gray-100 p-2 rounded">
-          <code>{rgbString}</code>
-          <CopyButton textToCopy={rgbString} />
-        </div>
-      </div>
+      {colorFormats.map((format) => (
+        <ColorField key={format.id} format={format} color={color} onChange={onChange} />
+      ))}
     </div>
   );
 };
@@ -158,20 +125,33 @@ export default function EyeDropper() {
   // --- State ---
   const [pickedColor, setPickedColor] = useState<ColorData | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [isSupported, setIsSupported] = useState(false);
+  // --- 检查 API 支持 (Firefox、Safari 不支持，改为从图片取色) ---
+  const [isSupported] = useState(() => typeof window !== 'undefined' && 'EyeDropper' in window);
   const [isPicking, setIsPicking] = useState(false);
+  const [showImagePicker, setShowImagePicker] = useState(!isSupported);
+  const [history, setHistory] = useState<string[]>(loadHistory);
+  const [palettes, setPalettes] = useState<Palette[]>(loadPalettes);
 
-  // --- 检查 API 支持 ---
+  // 保存取色历史与调色板
   useEffect(() => {
-    if ('EyeDropper' in window) {
-      setIsSupported(true);
-    } else {
-      setError("您的浏览器不支持 EyeDropper API。请尝试使用最新的 Chrome 或 Edge 浏览器。");
-    }
-  }, []);
+    saveHistory(history);
+  }, [history]);
+
+  useEffect(() => {
+    savePalettes(palettes);
+  }, [palettes]);
 
   // --- 事件处理 ---
 
+  /**
+   * 选中取到的颜色并记入历史 (手动编辑颜色值不计入)
+   */
+  const recordPick = (hex: string) => {
+    const color = hexToRgba(hex);
+    setPickedColor(color);
+    setHistory((h) => addToHistory(h, rgbToHex(color.r, color.g, color.b)));
+  };
+
   /**
    * 处理点击取色按钮
    */
@@ -191,7 +171,7 @@ export default function EyeDropper() {
       // 打开取色器
       const result = await eyeDropper.open();
       // result.sRGBHex 包含了像 #aabbcc 这样的颜色值
-      setPickedColor(hexToRgba(result.sRGBHex));
+      recordPick(result.sRGBHex);
     } catch (e) {
       console.error(e);
       // 用户按 ESC 键取消
@@ -210,26 +190,59 @@ export default function EyeDropper() {
           屏幕取色器
         </h1>
         {/* --- 取色按钮 --- */}
-        <button
-          onClick={handlePickColor}
-          disabled={!isSupported || isPicking}
-          className="mb-6 w-full cursor-pointer rounded-md bg-blue-500 px-4 py-3 text-center font-semibold text-white shadow-sm transition-colors hover:bg-blue-600 active:scale-95 disabled:bg-gray-400 disabled:cursor-not-allowed"
-        >
-          {isPicking ? '正在拾取...' : '启动取色器 (吸管)'}
-        </button>
+        {isSupported ? (
+          <button
+            onClick={handlePickColor}
+            disabled={isPicking}
+            className="mb-6 w-full cursor-pointer rounded-md bg-blue-500 px-4 py-3 text-center font-semibold text-white shadow-sm transition-colors hover:bg-blue-600 active:scale-95 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isPicking ? '正在拾取...' : '启动取色器 (吸管)'}
+          </button>
+        ) : (
+          <div className="mb-4 p-3 bg-yellow-100 text-yellow-700 border border-yellow-300 rounded-md text-sm">
+            您的浏览器不支持 EyeDropper API，可以从图片或截图中取色。
+          </div>
+        )}
+        {/* --- 从图片取色 --- */}
+        {isSupported && (
+          <button
+            onClick={() => setShowImagePicker(!showImagePicker)}
+            className="mb-4 text-sm text-blue-600 hover:underline"
+          >
+            {showImagePicker ? '收起图片取色' : '从图片取色 / 提取主色'}
+          </button>
+        )}
+        {showImagePicker && (
+          <EyedropperImage
+            onPick={(hex) => {
+              setError(null);
+              recordPick(hex);
+            }}
+          />
+        )}
         {/* --- 颜色显示 --- */}
-        <ColorDisplay color={pickedColor} />
+        <ColorDisplay color={pickedColor} onChange={setPickedColor} />
+        {/* --- 色阶与配色 --- */}
+        {pickedColor && <EyedropperScales color={pickedColor} onSelect={setPickedColor} />}
+        {/* --- 对比度检查 --- */}
+        <EyedropperContrast current={pickedColor} onSelect={setPickedColor} />
+        {/* --- 色觉模拟 --- */}
+        <EyedropperVision current={pickedColor} palettes={palettes} onSelect={setPickedColor} />
+        {/* --- 取色历史与调色板 --- */}
+        <EyedropperPalettes
+          history={history}
+          palettes={palettes}
+          current={pickedColor && rgbToHex(pickedColor.r, pickedColor.g, pickedColor.b)}
+          onSelect={(hex) => setPickedColor(hexToRgba(hex))}
+          onHistoryChange={setHistory}
+          onPalettesChange={setPalettes}
+        />
         {/* --- 错误/状态信息 --- */}
         {error && (
           <div className="mt-4 p-3 bg-red-100 text-red-700 border border-red-300 rounded-md text-sm">
             {error}
           </div>
         )}
-        {!isSupported && !error && (
-          <div className="mt-4 p-3 bg-yellow-100 text-yellow-700 border border-yellow-300 rounded-md text-sm">
-            正在检查浏览器支持...
-          </div>
-        )}
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+import React, { useState } from "react";
+import { parseColor, rgbToHex, toColorData, type ColorData } from "./colorSpaces.ts";
+import {
+  apcaContrast,
+  apcaRating,
+  contrastRatio,
+  suggestPassing,
+  wcagLevels,
+} from "./colorContrast.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 对比度检查的 Props
+ */
+interface EyedropperContrastProps {
+  current: ColorData | null; // 当前选中的颜色，可填入前景或背景
+  onSelect: (color: ColorData) => void;
+}
+
+// --- 帮助函数 ---
+
+const hexOf = ({ r, g, b }: ColorData): string => rgbToHex(r, g, b);
+
+// --- 组件 ---
+
+/**
+ * 颜色槽：色块、可输入任意格式的文本框，以及填入选中颜色的按钮
+ */
+const ColorSlot: React.FC<{
+  label: string;
+  color: ColorData;
+  current: ColorData | null;
+  onChange: (color: ColorData) => void;
+  onSelect: (color: ColorData) => void;
+}> = ({ label, color, current, onChange, onSelect }) => {
+  // 正在编辑的文本；为 null 时显示颜色的 HEX
+  const [draft, setDraft] = useState<string | null>(null);
+  const invalid = draft !== null && parseColor(draft) === null;
+
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="text-xs font-medium text-gray-500 mb-1">{label}</div>
+      <div className="flex items-center gap-1.5">
+        <button
+          title="设为选中颜色"
+          onClick={() => onSelect(color)}
+          className="w-8 h-8 shrink-0 rounded border border-gray-300"
+          style={{ backgroundColor: hexOf(color) }}
+        />
+        <input
+          value={draft ?? hexOf(color)}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            const parsed = parseColor(e.target.value);
+            if (parsed) onChange(toColorData(parsed));
+          }}
+          onBlur={() => setDraft(null)}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          spellCheck={false}
+          className={`w-full min-w-0 font-mono text-sm bg-white px-2 py-1 rounded border focus:outline-none ${
+            invalid ? "border-red-400" : "border-gray-300 focus:border-blue-400"
+          }`}
+        />
+      </div>
+      <button
+        disabled={!current}
+        onClick={() => current && onChange(current)}
+        className="mt-1 text-xs text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+      >
+        填入选中颜色
+      </button>
+    </div>
+  );
+};
+
+/**
+ * 对比度检查：前景与背景两个颜色槽，显示 WCAG 2.x 对比度与各等级是否达标、
+ * APCA Lc 值和文字示例；不达标时给出只调整前景明度的最接近达标颜色
+ */
+const EyedropperContrast: React.FC<EyedropperContrastProps> = ({ current, onSelect }) => {
+  const [foreground, setForeground] = useState<ColorData>({ r: 0, g: 0, b: 0, a: 255 });
+  const [background, setBackground] = useState<ColorData>({ r: 255, g: 255, b: 255, a: 255 });
+  const [target, setTarget] = useState(wcagLevels[0].id);
+
+  const ratio = contrastRatio(foreground, background);
+  const lc = apcaContrast(foreground, background);
+  const level = wcagLevels.find((l) => l.id === target)!;
+  const suggestion = ratio < level.ratio ? suggestPassing(foreground, background, level.ratio) : null;
+
+  const suggestionSwatch = (label: string, color: ColorData | null) =>
+    color ? (
+      <button
+        onClick={() => setForeground(color)}
+        title="用作前景"
+        className="flex items-center gap-1.5 px-2 py-1 rounded bg-white border border-gray-300 hover:bg-gray-50"
+      >
+        <span className="w-4 h-4 rounded border border-gray-300" style={{ backgroundColor: hexOf(color) }} />
+        <span className="font-mono">{hexOf(color)}</span>
+        <span className="text-gray-500">
+          {label} {contrastRatio(color, background).toFixed(2)}:1
+        </span>
+      </button>
+    ) : (
+      <span className="text-gray-400">{label}：无法达标</span>
+    );
+
+  return (
+    <div className="mb-4 flex flex-col gap-3 text-sm">
+      <h3 className="font-semibold text-lg text-gray-700">对比度检查</h3>
+      <div className="flex items-start gap-2">
+        <ColorSlot
+          label="前景 (文字)"
+          color={foreground}
+          current={current}
+          onChange={setForeground}
+          onSelect={onSelect}
+        />
+        <button
+          title="交换前景与背景"
+          onClick={() => {
+            setForeground(background);
+            setBackground(foreground);
+          }}
+          className="mt-6 px-1.5 py-1 rounded text-gray-500 hover:bg-gray-200"
+        >
+          ⇄
+        </button>
+        <ColorSlot label="背景" color={background} current={current} onChange={setBackground} onSelect={onSelect} />
+      </div>
+
+      {/* --- 文字示例 --- */}
+      <div
+        className="rounded-md border border-gray-300 p-3"
+        style={{ color: hexOf(foreground), backgroundColor: hexOf(background) }}
+      >
+        <p className="text-base">正文示例：敏捷的棕色狐狸跳过了懒狗。The quick brown fox.</p>
+        <p className="text-2xl font-bold">大字示例 Aa</p>
+      </div>
+
+      {/* --- 结果 --- */}
+      <div className="flex items-baseline gap-4">
+        <span>
+          WCAG <span className="text-xl font-bold font-mono">{ratio.toFixed(2)}:1</span>
+        </span>
+        <span title={apcaRating(lc)}>
+          APCA <span className="text-xl font-bold font-mono">Lc {lc.toFixed(1)}</span>
+        </span>
+      </div>
+      <p className="text-xs text-gray-500">APCA：{apcaRating(lc)}</p>
+      <div className="grid grid-cols-2 gap-1.5">
+        {wcagLevels.map((l) => {
+          const pass = ratio >= l.ratio;
+          return (
+            <div
+              key={l.id}
+              className={`flex justify-between px-2 py-1 rounded ${
+                pass ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+              }`}
+            >
+              <span>
+                {l.label} ({l.ratio}:1)
+              </span>
+              <span className="font-semibold">{pass ? "通过" : "未通过"}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* --- 建议 --- */}
+      <div className="flex flex-col gap-1.5">
+        <label className="text-xs text-gray-500">
+          目标{" "}
+          <select value={target} onChange={(e) => setTarget(e.target.value)} className="border rounded px-1">
+            {wcagLevels.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.label} ({l.ratio}:1)
+              </option>
+            ))}
+          </select>
+        </label>
+        {suggestion ? (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-gray-500">建议前景:</span>
+            {suggestionSwatch("更亮", suggestion.lighter)}
+            {suggestionSwatch("更暗", suggestion.darker)}
+          </div>
+        ) : (
+          <span className="text-xs text-green-700">已达到 {level.label} 要求</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EyedropperContrast;
@@ -0,0 +1,473 @@
+import React, { useState, useEffect, useRef } from "react";
+import {
+  quantizeMethods,
+  type DominantColor,
+  type QuantizeMethod,
+  type QuantizeRequest,
+  type QuantizeResponse,
+} from "./colorQuantize.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 图片取色的 Props
+ */
+interface EyedropperImageProps {
+  onPick: (hex: string) => void; // 与 EyeDropper API 一样返回 #RRGGBB
+}
+
+/**
+ * 已加载的图片：bitmap 用于绘制，data 用于读取像素
+ */
+interface LoadedImage {
+  bitmap: ImageBitmap;
+  data: ImageData;
+}
+
+/**
+ * 鼠标所在的像素 (x, y) 与其在画布上的位置 (px, py)
+ */
+interface Hover {
+  x: number;
+  y: number;
+  px: number;
+  py: number;
+}
+
+const zoomLevels = [0.125, 0.25, 0.5, 1, 2, 4, 8, 16, 32];
+const sampleSizes = [1, 3, 5, 7, 9];
+
+/**
+ * 画布的最大边长，超过时浏览器可能无法绘制
+ */
+const maxCanvasSize = 8192;
+const fitWidth = 400; // 初始缩放让图片宽度不超过此值
+const gridZoom = 8; // 放大到此倍数以上时显示像素网格
+const loupeSize = 132; // 放大镜边长 (像素)
+const loupeCells = 11; // 放大镜中显示的像素数
+const maxDominant = 16; // 主色数量上限
+
+// --- 帮助函数 ---
+
+const toHex = (r: number, g: number, b: number): string =>
+  "#" + [r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("").toUpperCase();
+
+/**
+ * 以 (x, y) 为中心 n×n 区域的平均颜色；超出图片的部分不计，
+ * 半透明像素按叠加在白色背景上计算
+ */
+const averageColor = (data: ImageData, x: number, y: number, n: number): string => {
+  const half = Math.floor(n / 2);
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+  for (let j = Math.max(0, y - half); j <= Math.min(data.height - 1, y + half); j++) {
+    for (let i = Math.max(0, x - half); i <= Math.min(data.width - 1, x + half); i++) {
+      const k = (j * data.width + i) * 4;
+      const alpha = data.data[k + 3] / 255;
+      r += data.data[k] * alpha + 255 * (1 - alpha);
+      g += data.data[k + 1] * alpha + 255 * (1 - alpha);
+      b += data.data[k + 2] * alpha + 255 * (1 - alpha);
+      count++;
+    }
+  }
+  return count === 0 ? "#FFFFFF" : toHex(Math.round(r / count), Math.round(g / count), Math.round(b / count));
+};
+
+/**
+ * 解码图片文件并读取全部像素
+ */
+const loadImage = async (file: Blob): Promise<LoadedImage> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("无法创建画布");
+  ctx.drawImage(bitmap, 0, 0);
+  return { bitmap, data: ctx.getImageData(0, 0, bitmap.width, bitmap.height) };
+};
+
+/**
+ * 从粘贴或拖放的数据中取出第一张图片
+ */
+const imageFromTransfer = (transfer: DataTransfer): File | null =>
+  [...transfer.files].find((f) => f.type.startsWith("image/")) ?? null;
+
+// --- 组件 ---
+
+/**
+ * 从图片取色：加载、拖放或粘贴图片 (截图)，带放大镜、像素网格缩放与 N×N 平均取样。
+ * 用于不支持 EyeDropper API 的浏览器；也可以在 Worker 中提取图片的 N 种主色
+ */
+const EyedropperImage: React.FC<EyedropperImageProps> = ({ onPick }) => {
+  const [image, setImage] = useState<LoadedImage | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [sample, setSample] = useState(1);
+  const [hover, setHover] = useState<Hover | null>(null);
+  const [error, setError] = useState("");
+  const [dragging, setDragging] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // --- 主色提取 ---
+  const [dominantCount, setDominantCount] = useState(6);
+  const [method, setMethod] = useState<QuantizeMethod>("medianCut");
+  const [dominant, setDominant] = useState<DominantColor[] | null>(null);
+  const [extracting, setExtracting] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0); // 最新请求的 id，较早请求的结果丢弃
+
+  // 卸载时结束 Worker
+  useEffect(() => {
+    return () => workerRef.current?.terminate();
+  }, []);
+
+  // 更换图片或卸载时释放旧的 ImageBitmap
+  useEffect(() => {
+    return () => image?.bitmap.close();
+  }, [image]);
+
+  // 当前图片允许的缩放倍数
+  const zooms = image
+    ? zoomLevels.filter((z) => Math.max(image.bitmap.width, image.bitmap.height) * z <= maxCanvasSize)
+    : zoomLevels;
+  const canvasWidth = image ? Math.max(1, Math.round(image.bitmap.width * zoom)) : 0;
+  const canvasHeight = image ? Math.max(1, Math.round(image.bitmap.height * zoom)) : 0;
+
+  const openFile = (file: Blob | null) => {
+    if (!file) return;
+    setError("");
+    loadImage(file)
+      .then((loaded) => {
+        const fit = zoomLevels.filter((z) => loaded.bitmap.width * z <= fitWidth);
+        setImage(loaded);
+        setZoom(fit.length > 0 ? fit[fit.length - 1] : zoomLevels[0]);
+        setHover(null);
+        setDominant(null);
+        setExtracting(false);
+        requestRef.current++;
+      })
+      .catch(() => setError("无法读取该图片。"));
+  };
+
+  /**
+   * 在 Worker 中提取主色；像素数据复制一份后转移给 Worker
+   */
+  const extractDominant = (count = dominantCount, quantize = method) => {
+    if (!image) return;
+    if (!workerRef.current) {
+      const worker = new Worker(new URL("./colorQuantize.worker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = (e: MessageEvent<QuantizeResponse>) => {
+        if (e.data.id !== requestRef.current) return;
+        setExtracting(false);
+        if ("error" in e.data) setError(`提取主色失败：${e.data.error}`);
+        else setDominant(e.data.colors);
+      };
+      // Worker 加载失败或抛出异常时不会有回复，结束它以便下次重新创建
+      const fail = () => {
+        worker.terminate();
+        if (workerRef.current === worker) workerRef.current = null;
+        setExtracting(false);
+        setError("提取主色失败：后台线程出错。");
+      };
+      worker.onerror = fail;
+      worker.onmessageerror = fail;
+      workerRef.current = worker;
+    }
+    const request: QuantizeRequest = {
+      id: ++requestRef.current,
+      pixels: image.data.data.slice(),
+      count,
+      method: quantize,
+    };
+    setExtracting(true);
+    setError("");
+    workerRef.current.postMessage(request, [request.pixels.buffer]);
+  };
+
+  // 已提取过主色时，修改数量或方法后重新提取
+  const changeDominantCount = (count: number) => {
+    setDominantCount(count);
+    if (dominant) extractDominant(count);
+  };
+
+  const changeMethod = (quantize: QuantizeMethod) => {
+    setMethod(quantize);
+    if (dominant) extractDominant(dominantCount, quantize);
+  };
+
+  // 绘制图片；放大到一定倍数后叠加像素网格
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    const { width, height } = image.bitmap;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = zoom < 1;
+    ctx.drawImage(image.bitmap, 0, 0, canvas.width, canvas.height);
+    if (zoom >= gridZoom) {
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.15)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let x = 0; x <= width; x++) {
+        ctx.moveTo(x * zoom + 0.5, 0);
+        ctx.lineTo(x * zoom + 0.5, canvas.height);
+      }
+      for (let y = 0; y <= height; y++) {
+        ctx.moveTo(0, y * zoom + 0.5);
+        ctx.lineTo(canvas.width, y * zoom + 0.5);
+      }
+      ctx.stroke();
+    }
+  }, [image, zoom, canvasWidth, canvasHeight]);
+
+  // 绘制放大镜：鼠标周围的像素放大显示，中间框出取样区域
+  useEffect(() => {
+    const canvas = loupeRef.current;
+    if (!canvas || !image || !hover) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    const cells = Math.max(loupeCells, sample + 4) | 1; // 保持奇数，中心正好是一个像素
+    const half = (cells - 1) / 2;
+    const cell = loupeSize / cells;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, loupeSize, loupeSize);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(image.bitmap, hover.x - half, hover.y - half, cells, cells, 0, 0, loupeSize, loupeSize);
+
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.2)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 1; i < cells; i++) {
+      ctx.moveTo(Math.round(i * cell) + 0.5, 0);
+      ctx.lineTo(Math.round(i * cell) + 0.5, loupeSize);
+      ctx.moveTo(0, Math.round(i * cell) + 0.5);
+      ctx.lineTo(loupeSize, Math.round(i * cell) + 0.5);
+    }
+    ctx.stroke();
+
+    // 取样区域：黑白双线，在任何颜色上都看得清
+    const start = (half - Math.floor(sample / 2)) * cell;
+    const size = sample * cell;
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = "#000000";
+    ctx.strokeRect(start, start, size, size);
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = "#ffffff";
+    ctx.strokeRect(start + 1.5, start + 1.5, size - 3, size - 3);
+  }, [image, hover, sample]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!image) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = e.clientX - rect.left;
+    const py = e.clientY - rect.top;
+    const x = Math.min(image.bitmap.width - 1, Math.max(0, Math.floor(px / zoom)));
+    const y = Math.min(image.bitmap.height - 1, Math.max(0, Math.floor(py / zoom)));
+    setHover({ x, y, px, py });
+  };
+
+  const hex = image && hover ? averageColor(image.data, hover.x, hover.y, sample) : null;
+
+  // 放大镜显示在鼠标右下方，靠近画布边缘时翻到另一侧
+  const loupeStyle = (h: Hover): React.CSSProperties => ({
+    left: h.px + 16 + loupeSize > canvasWidth ? Math.max(0, h.px - 16 - loupeSize) : h.px + 16,
+    top: h.py + 16 + loupeSize > canvasHeight && h.py > loupeSize + 16 ? h.py - 16 - loupeSize : h.py + 16,
+  });
+
+  return (
+    <div
+      tabIndex={0}
+      onPaste={(e) => {
+        const file = imageFromTransfer(e.clipboardData);
+        if (file) {
+          e.preventDefault();
+          openFile(file);
+        }
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        openFile(imageFromTransfer(e.dataTransfer));
+      }}
+      className={`mb-4 rounded-md border-2 border-dashed p-3 text-sm outline-none focus:border-blue-400 ${
+        dragging ? "border-blue-500 bg-blue-50" : "border-gray-300"
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1 rounded bg-white border hover:bg-gray-50"
+        >
+          选择图片
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            openFile(e.target.files?.[0] ?? null);
+            e.target.value = "";
+          }}
+        />
+        {image && (
+          <>
+            <label>
+              缩放{" "}
+              <select value={zoom} onChange={(e) => setZoom(Number(e.target.value))} className="border rounded px-1">
+                {zooms.map((z) => (
+                  <option key={z} value={z}>
+                    {z >= 1 ? `${z}×` : `${z * 100}%`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              取样{" "}
+              <select
+                value={sample}
+                onChange={(e) => setSample(Number(e.target.value))}
+                className="border rounded px-1"
+              >
+                {sampleSizes.map((n) => (
+                  <option key={n} value={n}>
+                    {n === 1 ? "单个像素" : `${n}×${n} 平均`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {!image && (
+        <p className="text-gray-500 py-6 text-center">
+          将图片拖放到这里，或点击此区域后按 Ctrl+V 粘贴截图
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+
+      {image && (
+        <>
+          <div className="max-h-96 overflow-auto bg-[repeating-conic-gradient(#e5e7eb_0_25%,#fff_0_50%)] bg-[length:16px_16px]">
+            <div className="relative w-max">
+              <canvas
+                ref={canvasRef}
+                width={canvasWidth}
+                height={canvasHeight}
+                className="block cursor-crosshair"
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHover(null)}
+                onClick={() => hex && onPick(hex)}
+              />
+              {hover && (
+                <canvas
+                  ref={loupeRef}
+                  width={loupeSize}
+                  height={loupeSize}
+                  className="absolute pointer-events-none rounded-full border-2 border-white shadow-lg"
+                  style={loupeStyle(hover)}
+                />
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 mt-2 h-6 font-mono">
+            {hover && hex ? (
+              <>
+                <span className="w-5 h-5 rounded border border-gray-300" style={{ backgroundColor: hex }} />
+                <span>{hex}</span>
+                <span className="text-gray-500">
+                  ({hover.x}, {hover.y})
+                </span>
+              </>
+            ) : (
+              <span className="text-gray-500 font-sans">
+                {image.bitmap.width} × {image.bitmap.height}，点击图片取色
+              </span>
+            )}
+          </div>
+
+          {/* --- 主色 --- */}
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <label>
+              主色数量{" "}
+              <input
+                type="number"
+                min={1}
+                max={maxDominant}
+                value={dominantCount}
+                onChange={(e) =>
+                  changeDominantCount(Math.min(maxDominant, Math.max(1, Math.floor(Number(e.target.value)) || 1)))
+                }
+                className="border rounded px-1 w-12 text-center"
+              />
+            </label>
+            <select
+              value={method}
+              onChange={(e) => changeMethod(e.target.value as QuantizeMethod)}
+              className="border rounded px-1"
+            >
+              {quantizeMethods.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => extractDominant()}
+              disabled={extracting}
+              className="px-3 py-1 rounded bg-white border hover:bg-gray-50 disabled:opacity-50"
+            >
+              {extracting ? "提取中..." : "提取主色"}
+            </button>
+          </div>
+          {dominant && (
+            <div className={`mt-2 ${extracting ? "opacity-50" : ""}`}>
+              {dominant.length === 0 ? (
+                <p className="text-gray-500">图片是全透明的，没有可提取的颜色。</p>
+              ) : (
+                <>
+                  {/* 按占比排列的色条 */}
+                  <div className="flex h-6 rounded overflow-hidden border border-gray-300">
+                    {dominant.map((d, i) => (
+                      <button
+                        key={`${i}-${d.hex}`}
+                        title={`${d.hex} ${(d.share * 100).toFixed(1)}%`}
+                        onClick={() => onPick(d.hex)}
+                        style={{ backgroundColor: d.hex, width: `${d.share * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-1 mt-2 font-mono">
+                    {dominant.map((d, i) => (
+                      <button
+                        key={`${i}-${d.hex}`}
+                        onClick={() => onPick(d.hex)}
+                        title="设为选中颜色"
+                        className="flex items-center gap-2 px-1 rounded hover:bg-gray-100 text-left"
+                      >
+                        <span className="w-4 h-4 rounded border border-gray-300" style={{ backgroundColor: d.hex }} />
+                        {d.hex}
+                        <span className="ml-auto text-gray-500">{(d.share * 100).toFixed(1)}%</span>
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EyedropperImage;
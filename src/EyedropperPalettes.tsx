@@ -0,0 +1,273 @@
+import React, { useRef, useState } from "react";
+import { downloadFile } from "./download.ts";
+import {
+  createPalette,
+  exportFormats,
+  exportPalette,
+  importPalette,
+  moveItem,
+  normalizeHex,
+  paletteSlug,
+  type ExportFormat,
+  type Palette,
+} from "./colorPalettes.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 取色历史与调色板的 Props
+ */
+interface EyedropperPalettesProps {
+  history: string[];
+  palettes: Palette[];
+  current: string | null; // 当前选中的颜色 (#RRGGBB)
+  onSelect: (hex: string) => void;
+  onHistoryChange: (history: string[]) => void;
+  onPalettesChange: (palettes: Palette[]) => void;
+}
+
+/**
+ * 拖动调色板中的颜色时携带的来源位置，用于排序或在调色板间移动
+ */
+interface DragSource {
+  paletteId: string;
+  index: number;
+}
+
+const dragType = "application/x-eyedropper-swatch";
+
+// --- 组件 ---
+
+/**
+ * 色块：点击选中，可拖动到调色板
+ */
+const Swatch: React.FC<{
+  hex: string;
+  onClick: () => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDrop?: (e: React.DragEvent) => void;
+  onRemove?: () => void;
+}> = ({ hex, onClick, onDragStart, onDrop, onRemove }) => (
+  <div
+    className="group relative"
+    draggable
+    onDragStart={onDragStart}
+    onDragOver={onDrop && ((e) => e.preventDefault())}
+    onDrop={onDrop}
+  >
+    <button
+      title={hex}
+      onClick={onClick}
+      className="block w-7 h-7 rounded border border-gray-300 cursor-grab"
+      style={{ backgroundColor: hex }}
+    />
+    {onRemove && (
+      <button
+        title="移除"
+        onClick={onRemove}
+        className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-gray-700 text-white text-[10px] leading-none"
+      >
+        ×
+      </button>
+    )}
+  </div>
+);
+
+/**
+ * 取色历史与命名调色板：历史自动记录；颜色可拖入调色板并拖动排序，
+ * 调色板可重命名、导出 (CSS 变量 / Tailwind / JSON 令牌 / .gpl / .ase) 与导入 (.gpl / JSON)
+ */
+const EyedropperPalettes: React.FC<EyedropperPalettesProps> = ({
+  history,
+  palettes,
+  current,
+  onSelect,
+  onHistoryChange,
+  onPalettesChange,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("css");
+  const [error, setError] = useState("");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updatePalette = (id: string, patch: Partial<Palette>) =>
+    onPalettesChange(palettes.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const startDrag = (e: React.DragEvent, hex: string, source?: DragSource) => {
+    e.dataTransfer.setData("text/plain", hex);
+    if (source) e.dataTransfer.setData(dragType, JSON.stringify(source));
+    e.dataTransfer.effectAllowed = source ? "copyMove" : "copy";
+  };
+
+  /**
+   * 放到调色板的 index 位置 (省略时追加到末尾)：同一调色板内为排序，
+   * 其他来源为添加颜色；按住 Alt 从其他调色板拖入时复制，否则移动
+   */
+  const handleDrop = (e: React.DragEvent, target: Palette, index = target.colors.length) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    const hex = normalizeHex(e.dataTransfer.getData("text/plain"));
+    if (!hex) return;
+    const raw = e.dataTransfer.getData(dragType);
+    const source: DragSource | null = raw ? JSON.parse(raw) : null;
+
+    if (source?.paletteId === target.id) {
+      updatePalette(target.id, { colors: moveItem(target.colors, source.index, index) });
+      return;
+    }
+    const inserted = [...target.colors];
+    inserted.splice(index, 0, hex);
+    onPalettesChange(
+      palettes.map((p) => {
+        if (p.id === target.id) return { ...p, colors: inserted };
+        if (source && !e.altKey && p.id === source.paletteId) {
+          return { ...p, colors: p.colors.filter((_, i) => i !== source.index) };
+        }
+        return p;
+      })
+    );
+  };
+
+  const handleExport = (palette: Palette) => {
+    const option = exportFormats.find((f) => f.value === format)!;
+    const filename = `${paletteSlug(palette.name)}.${option.extension}`;
+    downloadFile(filename, exportPalette(palette, format), option.mimeType);
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    setError("");
+    file
+      .text()
+      .then((text) => onPalettesChange([...palettes, importPalette(file.name, text)]))
+      .catch((err: unknown) => setError(`导入失败：${err instanceof Error ? err.message : String(err)}`));
+  };
+
+  const removePalette = (palette: Palette) => {
+    if (palette.colors.length > 0 && !window.confirm(`确定删除调色板「${palette.name}」？`)) return;
+    onPalettesChange(palettes.filter((p) => p.id !== palette.id));
+  };
+
+  return (
+    <div className="mb-4 flex flex-col gap-3 text-sm">
+      {/* --- 取色历史 --- */}
+      <div>
+        <div className="flex items-center mb-2">
+          <h3 className="font-semibold text-lg text-gray-700">取色历史</h3>
+          {history.length > 0 && (
+            <button className="ml-auto text-xs text-gray-500 hover:underline" onClick={() => onHistoryChange([])}>
+              清空
+            </button>
+          )}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-gray-500">还没有取过颜色。</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {history.map((hex) => (
+              <Swatch key={hex} hex={hex} onClick={() => onSelect(hex)} onDragStart={(e) => startDrag(e, hex)} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* --- 调色板 --- */}
+      <div className="flex items-center gap-2">
+        <h3 className="font-semibold text-lg text-gray-700">调色板</h3>
+        <label className="ml-auto text-xs text-gray-500">
+          导出格式{" "}
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="border rounded px-1"
+          >
+            {exportFormats.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {palettes.map((palette) => (
+        <div
+          key={palette.id}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropTarget(palette.id);
+          }}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, palette)}
+          className={`rounded-md border p-2 bg-white ${
+            dropTarget === palette.id ? "border-blue-500 bg-blue-50" : "border-gray-200"
+          }`}
+        >
+          <div className="flex items-center gap-2 mb-2">
+            <input
+              value={palette.name}
+              onChange={(e) => updatePalette(palette.id, { name: e.target.value })}
+              className="flex-1 min-w-0 border rounded px-2 py-0.5 font-medium"
+              placeholder="调色板名称"
+            />
+            <button
+              className="px-2 py-0.5 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+              disabled={palette.colors.length === 0}
+              onClick={() => handleExport(palette)}
+            >
+              导出
+            </button>
+            <button className="px-2 py-0.5 rounded text-red-600 hover:bg-red-50" onClick={() => removePalette(palette)}>
+              删除
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5 min-h-7">
+            {palette.colors.map((hex, i) => (
+              <Swatch
+                key={`${i}-${hex}`}
+                hex={hex}
+                onClick={() => onSelect(hex)}
+                onDragStart={(e) => startDrag(e, hex, { paletteId: palette.id, index: i })}
+                onDrop={(e) => handleDrop(e, palette, i)}
+                onRemove={() => updatePalette(palette.id, { colors: palette.colors.filter((_, j) => j !== i) })}
+              />
+            ))}
+            {palette.colors.length === 0 && <span className="text-xs text-gray-400">把颜色拖到这里</span>}
+            {current && (
+              <button
+                className="text-xs text-blue-600 hover:underline"
+                onClick={() => updatePalette(palette.id, { colors: [...palette.colors, current] })}
+              >
+                + 当前颜色
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-3">
+        <button
+          className="text-xs text-blue-600 hover:underline"
+          onClick={() => onPalettesChange([...palettes, createPalette(`调色板 ${palettes.length + 1}`)])}
+        >
+          + 新建调色板
+        </button>
+        <button className="text-xs text-blue-600 hover:underline" onClick={() => fileInputRef.current?.click()}>
+          导入 .gpl / JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpl,.json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default EyedropperPalettes;
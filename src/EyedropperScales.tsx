@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import { copyToClipboard } from "./clipboard.ts";
+import { colorFormats, rgbToHex, type ColorData } from "./colorSpaces.ts";
+import { harmonies, shadeScale } from "./colorScales.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 色阶与配色的 Props
+ */
+interface EyedropperScalesProps {
+  color: ColorData; // 生成色阶与配色的原始颜色
+  onSelect: (color: ColorData) => void;
+}
+
+// --- 组件 ---
+
+/**
+ * 由选中颜色生成的 50 ~ 950 色阶与五种配色；点击色块设为选中颜色，
+ * 悬停时可按所选格式复制
+ */
+const EyedropperScales: React.FC<EyedropperScalesProps> = ({ color, onSelect }) => {
+  const [formatId, setFormatId] = useState("hex");
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const format = colorFormats.find((f) => f.id === formatId)!;
+  const shades = shadeScale(color);
+
+  const copy = (c: ColorData) => {
+    const text = format.format(c);
+    if (copyToClipboard(text)) {
+      setCopied(text);
+      setTimeout(() => setCopied(null), 2000); // 2秒后隐藏提示
+    } else {
+      alert("复制失败。");
+    }
+  };
+
+  const swatch = (c: ColorData, key: string | number, label?: string, highlight = false) => {
+    const hex = rgbToHex(c.r, c.g, c.b);
+    return (
+      <div key={key} className="group relative flex-1 min-w-0">
+        <button
+          title={`${hex}，点击设为选中颜色`}
+          onClick={() => onSelect(c)}
+          className={`block w-full h-10 rounded border ${
+            highlight ? "border-gray-800 ring-2 ring-gray-800 ring-offset-1" : "border-gray-300"
+          }`}
+          style={{ backgroundColor: hex }}
+        />
+        <button
+          title={`复制 ${format.label}`}
+          onClick={() => copy(c)}
+          className="absolute top-0.5 right-0.5 hidden group-hover:block px-1 rounded bg-white/80 text-[10px] text-gray-700"
+        >
+          复制
+        </button>
+        {label && <div className="text-center text-[10px] text-gray-500 mt-0.5">{label}</div>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-4 flex flex-col gap-3 text-sm">
+      <div className="flex items-center gap-2">
+        <h3 className="font-semibold text-lg text-gray-700">色阶与配色</h3>
+        <label className="ml-auto text-xs text-gray-500">
+          复制格式{" "}
+          <select value={formatId} onChange={(e) => setFormatId(e.target.value)} className="border rounded px-1">
+            {colorFormats.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* --- 色阶 (OKLCH) --- */}
+      <div className="flex gap-0.5">{shades.map((s) => swatch(s.color, s.step, String(s.step), s.base))}</div>
+
+      {/* --- 配色 --- */}
+      {harmonies(color).map((h) => (
+        <div key={h.id} className="flex items-center gap-2">
+          <span className="w-16 shrink-0 text-xs text-gray-500">{h.label}</span>
+          <div className="flex flex-1 gap-1">{h.colors.map((c, i) => swatch(c, i, undefined, i === 0))}</div>
+        </div>
+      ))}
+
+      {copied && <p className="text-xs text-green-700 font-mono">已复制 {copied}</p>}
+    </div>
+  );
+};
+
+export default EyedropperScales;
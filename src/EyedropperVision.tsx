@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import type { Palette } from "./colorPalettes.ts";
+import { hexToRgba, parseColor, rgbToHex, toColorData, type ColorData } from "./colorSpaces.ts";
+import { confusablePairs, deficiencies, simulate } from "./colorVision.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 色觉模拟的 Props
+ */
+interface EyedropperVisionProps {
+  current: ColorData | null;
+  palettes: Palette[];
+  onSelect: (color: ColorData) => void;
+}
+
+// --- 帮助函数 ---
+
+const hexOf = ({ r, g, b }: ColorData): string => rgbToHex(r, g, b);
+
+/**
+ * 每行一个颜色，可以是任意支持的格式；无法解析的行忽略
+ */
+const parseColorList = (text: string): ColorData[] =>
+  text
+    .split(/\n/)
+    .map((line) => parseColor(line))
+    .filter((c) => c !== null)
+    .map(toColorData);
+
+// --- 组件 ---
+
+/**
+ * 色觉缺陷模拟：当前颜色或一组颜色 (调色板、手动输入) 在红色盲、绿色盲、
+ * 蓝色盲与全色盲下的样子，程度可调；模拟后两种颜色的 ΔE 低于阈值时提示难以区分，
+ * 用于检查图表配色
+ */
+const EyedropperVision: React.FC<EyedropperVisionProps> = ({ current, palettes, onSelect }) => {
+  // "current"、"custom" 或调色板 id
+  const [source, setSource] = useState("current");
+  const [customText, setCustomText] = useState("#1F77B4\n#FF7F0E\n#2CA02C\n#D62728");
+  const [severity, setSeverity] = useState(1);
+  const [threshold, setThreshold] = useState(8);
+
+  const palette = palettes.find((p) => p.id === source);
+  const colors =
+    source === "custom"
+      ? parseColorList(customText)
+      : palette
+        ? palette.colors.map(hexToRgba)
+        : current
+          ? [current]
+          : [];
+
+  const warnings = deficiencies
+    .map((d) => ({ ...d, pairs: confusablePairs(colors, d.value, severity, threshold) }))
+    .filter((d) => d.pairs.length > 0);
+
+  const cell = (color: ColorData, key: string | number) => (
+    <button
+      key={key}
+      title={hexOf(color)}
+      onClick={() => onSelect(color)}
+      className="h-8 rounded border border-gray-300"
+      style={{ backgroundColor: hexOf(color) }}
+    />
+  );
+
+  return (
+    <div className="mb-4 flex flex-col gap-3 text-sm">
+      <h3 className="font-semibold text-lg text-gray-700">色觉模拟</h3>
+      <div className="flex flex-wrap items-center gap-3">
+        <label>
+          颜色{" "}
+          <select value={source} onChange={(e) => setSource(e.target.value)} className="border rounded px-1">
+            <option value="current">当前颜色</option>
+            {palettes.map((p) => (
+              <option key={p.id} value={p.id}>
+                调色板：{p.name}
+              </option>
+            ))}
+            <option value="custom">手动输入</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          程度
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={severity}
+            onChange={(e) => setSeverity(Number(e.target.value))}
+          />
+          <span className="w-10 text-right">{Math.round(severity * 100)}%</span>
+        </label>
+        <label>
+          ΔE 阈值{" "}
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={threshold}
+            onChange={(e) => setThreshold(Math.max(0, Number(e.target.value)))}
+            className="border rounded px-1 w-14 text-center"
+          />
+        </label>
+      </div>
+      {source === "custom" && (
+        <textarea
+          value={customText}
+          onChange={(e) => setCustomText(e.target.value)}
+          rows={4}
+          spellCheck={false}
+          placeholder="每行一个颜色，例如 #1F77B4 或 rgb(31, 119, 180)"
+          className="font-mono text-xs border rounded p-2"
+        />
+      )}
+
+      {colors.length === 0 ? (
+        <p className="text-gray-500">没有可模拟的颜色。</p>
+      ) : (
+        <div className="grid grid-cols-5 gap-1 text-center">
+          <span className="text-xs text-gray-500">原色</span>
+          {deficiencies.map((d) => (
+            <span key={d.value} className="text-xs text-gray-500">
+              {d.label}
+            </span>
+          ))}
+          {colors.map((color, i) => (
+            <React.Fragment key={i}>
+              {cell(color, "original")}
+              {deficiencies.map((d) => cell(simulate(color, d.value, severity), d.value))}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      {/* --- 难以区分的颜色 --- */}
+      {warnings.map((d) => (
+        <div key={d.value} className="p-2 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-xs">
+          <div className="font-semibold mb-1">{d.label}下难以区分：</div>
+          {d.pairs.map(({ a, b, distance }) => (
+            <div key={`${a}-${b}`} className="flex items-center gap-1.5 font-mono">
+              <span className="w-3 h-3 rounded border border-gray-300" style={{ backgroundColor: hexOf(colors[a]) }} />
+              {hexOf(colors[a])}
+              <span>与</span>
+              <span className="w-3 h-3 rounded border border-gray-300" style={{ backgroundColor: hexOf(colors[b]) }} />
+              {hexOf(colors[b])}
+              <span className="text-yellow-700">ΔE {distance.toFixed(1)}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EyedropperVision;
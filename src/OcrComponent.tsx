@@ -1,34 +1,64 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { createWorker, type Worker as TesseractWorker } from 'tesseract.js';
+import { createWorker, type LoggerMessage, type Worker as TesseractWorker } from 'tesseract.js';
 
 /**
  * 说明：
- * 这个版本修复了将函数（logger）传递到 Worker 导致的 DataCloneError 问题。
- * 原因是：Web Worker 的 postMessage/structured clone 不支持函数的克隆。
- * 因此我们**不要把函数直接作为选项传给 createWorker**。
+ * 早先的版本把函数（logger）传进了 Worker，导致 DataCloneError：
+ * Web Worker 的 postMessage/structured clone 不支持函数的克隆。
  *
- * 实际策略：
- * - 不再把 logger 函数传入 createWorker。
- * - 保持组件 UI/交互不变，当无法获取精确进度时，使用不带百分比的“处理中”指示。
- * - 在识别开始/结束时合理更新状态，并在组件卸载时正确 terminate worker。
+ * 现在的进度管道：
+ * - tesseract.js (v6) 的 createWorker 会先把 logger 从选项中取出，留在主线程，
+ *   只把可序列化的选项发给 worker；worker 在各阶段 postMessage 出
+ *   { status, progress } 这样的纯数据消息，主线程收到后才调用 logger。
+ * - logger 只把消息换算成 OcrProgress（状态文字 + 百分比）写入 state，驱动进度条。
  *
- * 如果你希望恢复进度条（百分比），有两种可行方案：
- *  1) 在 worker 端实现 progress -> postMessage 到主线程（需要修改 worker 源），
- *  2) 使用支持将 logger 在 worker 内部执行的 tesseract.js 内部 API（需确认版本并避免把函数从主线程传入）。
- * 这两个方案都需要在 worker 和主线程之间通过可序列化的数据（消息）通信，而不是直接传递函数。
+ * 取消识别：
+ * - tesseract.js 没有中止单个 recognize 任务的 API，terminate 也不会让进行中的 Promise 结束。
+ * - 因此取消时让 recognize 与一个“取消” Promise 竞争，立即结束本次识别。
+ * - 只有识别已开始时才 terminate 旧 worker；新的 worker 等到下次识别时再创建，
+ *   避免每次取消都重新下载语言数据。若取消发生在 worker 创建期间，则保留它继续加载。
  */
 
+/**
+ * 发给进度条的进度：status 为显示的状态文字，percent 为 0 ~ 100
+ */
+interface OcrProgress {
+    status: string;
+    percent: number;
+}
+
+// tesseract.js 的状态文字对应的中文
+const statusLabels: Record<string, string> = {
+    'loading tesseract core': '加载识别核心',
+    'initializing tesseract': '初始化识别核心',
+    'loading language traineddata': '加载语言数据',
+    'loading language traineddata (from cache)': '加载语言数据（缓存）',
+    'initializing api': '初始化接口',
+    'recognizing text': '识别文字',
+};
+
+const toProgress = (message: LoggerMessage): OcrProgress => ({
+    status: statusLabels[message.status] ?? message.status,
+    percent: Math.round(Math.min(1, Math.max(0, message.progress)) * 100),
+});
+
 const OcrComponent: React.FC = () => {
     const [text, setText] = useState<string>('');
     const [loading, setLoading] = useState<boolean>(false);
-    // 已移除：const [progress, setProgress] = useState<number>(0);
+    const [progress, setProgress] = useState<OcrProgress | null>(null);
     // const [copied, setCopied] = useState<boolean>(false);
     const [imageLoaded, setImageLoaded] = useState<boolean>(false);
     const [worker, setWorker] = useState<TesseractWorker | null>(null);
+    const [spawning, setSpawning] = useState<boolean>(false); // worker 是否正在创建
     const [isDragging, setIsDragging] = useState(false); // 拖拽高亮状态
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null); // 隐藏文件输入的引用
+    const workerRef = useRef<TesseractWorker | null>(null); // 当前 worker，用于取消与卸载时 terminate
+    const spawnRef = useRef<Promise<TesseractWorker | null> | null>(null); // 创建中的 worker
+    const generationRef = useRef(0); // 每次创建 worker 加一，较早创建的 worker 与其进度消息作废
+    const cancelRef = useRef<(() => void) | null>(null); // 结束当前识别的函数
+    const recognizingRef = useRef(false); // recognize 是否已经开始
 
     // 抽取：从文件加载图片到 canvas
     const loadImageFromFile = useCallback((file: File) => {
@@ -103,55 +133,105 @@ const OcrComponent: React.FC = () => {
         return () => window.removeEventListener('paste', onPaste);
     }, [loadImageFromFile]);
 
-    // 初始化 worker（不传函数）
-    const initializeWorker = async (): Promise<TesseractWorker> => {
-        const w = await createWorker('eng+chi_sim', 1);
-        return w;
-    };
+    // 取得可用的 worker：已有则直接返回，创建中则等待同一个，否则新建
+    // （logger 留在主线程，只接收 worker 发来的进度数据）
+    const ensureWorker = useCallback((): Promise<TesseractWorker | null> => {
+        if (workerRef.current) return Promise.resolve(workerRef.current);
+        if (spawnRef.current) return spawnRef.current;
 
-    // 在组件挂载时创建 worker，并在卸载时 terminate
-    useEffect(() => {
-        let active = true;
-        let localWorker: TesseractWorker | null = null;
-
-        (async () => {
-            try {
-                localWorker = await initializeWorker();
-                if (active) setWorker(localWorker);
-            } catch (err) {
+        const generation = ++generationRef.current;
+        setSpawning(true);
+        const pending = createWorker('eng+chi_sim', 1, {
+            logger: (message) => {
+                if (generation === generationRef.current) setProgress(toProgress(message));
+            },
+        })
+            .then((w) => {
+                if (generation !== generationRef.current) {
+                    // 创建期间已卸载或已停用
+                    w.terminate().catch(() => {});
+                    return null;
+                }
+                workerRef.current = w;
+                setWorker(w);
+                setProgress(null);
+                return w;
+            })
+            .catch((err) => {
                 console.error('初始化 Tesseract Worker 失败:', err);
-            }
-        })();
+                return null;
+            })
+            .finally(() => {
+                if (generation !== generationRef.current) return;
+                spawnRef.current = null;
+                setSpawning(false);
+            });
+        spawnRef.current = pending;
+        return pending;
+    }, []);
 
-        return () => {
-            active = false;
-            if (localWorker && typeof localWorker.terminate === 'function') {
-                localWorker.terminate().catch(() => {});
-            }
-        };
+    // 停用当前 worker：terminate，并让仍在创建中的 worker 作废
+    const retireWorker = useCallback(() => {
+        generationRef.current++;
+        spawnRef.current = null;
+        setSpawning(false);
+        workerRef.current?.terminate().catch(() => {});
+        workerRef.current = null;
+        setWorker(null);
     }, []);
 
+    // 在组件挂载时预先创建 worker，并在卸载时 terminate
+    useEffect(() => {
+        ensureWorker();
+        return retireWorker;
+    }, [ensureWorker, retireWorker]);
+
     const runOcr = async () => {
-        if (!imageLoaded || !canvasRef.current || !worker) {
-            console.warn('OCR 条件未满足：请确保已选择图片并且识别核心已加载。');
+        const canvas = canvasRef.current;
+        if (!imageLoaded || !canvas) {
+            console.warn('OCR 条件未满足：请先选择图片。');
             return;
         }
 
         setLoading(true);
         setText('');
+        setProgress(null);
        // setCopied(false);
 
+        // 取消时结果为 null
+        const cancelled = new Promise<null>((resolve) => {
+            cancelRef.current = () => resolve(null);
+        });
+
         try {
-            const { data: { text: resultText } } = await worker.recognize(canvasRef.current);
-            setText(resultText);
+            // 上次取消后 worker 已停用时，在这里重新创建
+            const w = await Promise.race([ensureWorker(), cancelled]);
+            if (!w) {
+                if (!workerRef.current && !spawnRef.current) setText('识别核心加载失败，请查看控制台日志。');
+                return;
+            }
+            setProgress({ status: statusLabels['recognizing text'], percent: 0 });
+            recognizingRef.current = true;
+            const result = await Promise.race([w.recognize(canvas), cancelled]);
+            if (result) setText(result.data.text);
         } catch (err) {
             console.error('OCR 识别失败:', err);
             setText('识别失败，请查看控制台日志。');
         } finally {
+            recognizingRef.current = false;
+            cancelRef.current = null;
             setLoading(false);
+            setProgress(null);
         }
     };
 
+    // 取消识别：识别已开始时停用 worker，下次识别再创建；仍在加载时保留 worker 继续加载
+    const cancelOcr = () => {
+        const recognizing = recognizingRef.current;
+        cancelRef.current?.();
+        if (recognizing) retireWorker();
+    };
+
     // const handleCopy = () => {
     //     if (!text) return;
     //     if (navigator.clipboard) {
@@ -268,18 +348,37 @@ const OcrComponent: React.FC = () => {
 
                     <button
                         onClick={runOcr}
-                        disabled={loading || !imageLoaded || !worker}
+                        disabled={loading || !imageLoaded || spawning}
                         className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded disabled:bg-gray-400"
                     >
-                        {loading ? '识别中...' : (worker ? '开始识别' : '加载中...')}
+                        {loading ? '识别中...' : (spawning ? '加载中...' : '开始识别')}
                     </button>
                 </div>
 
                 {/* 去掉单独的预览区块 */}
 
-                {loading && (
+                {(loading || (!worker && progress)) && (
                     <div className="my-5">
-                        <p className="text-center text-blue-600">正在处理，请稍候...</p>
+                        <div className="flex items-center justify-between text-sm text-blue-600 mb-1">
+                            <span>{progress ? progress.status : '正在处理，请稍候...'}</span>
+                            <span>{progress ? `${progress.percent}%` : ''}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <div className="flex-1 h-3 bg-gray-200 rounded overflow-hidden">
+                                <div
+                                    className="h-full bg-blue-600 transition-[width] duration-200"
+                                    style={{ width: `${progress?.percent ?? 0}%` }}
+                                />
+                            </div>
+                            {loading && (
+                                <button
+                                    onClick={cancelOcr}
+                                    className="px-3 py-1 text-sm rounded border border-gray-300 hover:bg-gray-100"
+                                >
+                                    取消
+                                </button>
+                            )}
+                        </div>
                     </div>
                 )}
 
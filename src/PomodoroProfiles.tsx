@@ -0,0 +1,237 @@
+import React, { useState } from "react";
+import type { Phase } from "./pomodoro.ts";
+import {
+  copyProfile,
+  defaultProfileId,
+  expandSteps,
+  isValidProfile,
+  type Block,
+  type Interval,
+  type Profile,
+} from "./pomodoroProfiles.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 方案编辑器的 Props
+ */
+interface PomodoroProfilesProps {
+  profiles: Profile[];
+  active: Profile; // 正在使用 (也是正在编辑) 的方案
+  onChange: (profiles: Profile[], activeId: string) => void;
+}
+
+const phaseOptions: { value: Phase; label: string }[] = [
+  { value: "work", label: "工作" },
+  { value: "shortBreak", label: "短休息" },
+  { value: "longBreak", label: "长休息" },
+];
+
+// --- 组件 ---
+
+/**
+ * 计时方案编辑器：内置方案只读，可复制为自定义方案后编辑区块与间隔；
+ * 修改先保存在草稿中，点击保存后才生效
+ */
+const PomodoroProfiles: React.FC<PomodoroProfilesProps> = ({ profiles, active, onChange }) => {
+  const [draft, setDraft] = useState<Profile>(active);
+
+  const editable = !active.builtin;
+  const valid = isValidProfile(draft) && draft.name.trim() !== "";
+  const changed = JSON.stringify(draft) !== JSON.stringify(active);
+  const { steps, loopStart } = expandSteps(draft);
+  const cycleMinutes = steps.slice(loopStart).reduce((sum, s) => sum + s.minutes, 0);
+
+  // 区块变化时循环起点跟随原来的区块
+  const setBlocks = (blocks: Block[], loopFrom = draft.loopFrom) =>
+    setDraft({ ...draft, blocks, loopFrom: Math.min(loopFrom, Math.max(0, blocks.length - 1)) });
+
+  const updateBlock = (b: number, patch: Partial<Block>) =>
+    setBlocks(draft.blocks.map((block, i) => (i === b ? { ...block, ...patch } : block)));
+
+  const updateInterval = (b: number, index: number, patch: Partial<Interval>) =>
+    updateBlock(b, {
+      intervals: draft.blocks[b].intervals.map((interval, i) => (i === index ? { ...interval, ...patch } : interval)),
+    });
+
+  const moveBlock = (b: number, delta: number) => {
+    const blocks = [...draft.blocks];
+    [blocks[b], blocks[b + delta]] = [blocks[b + delta], blocks[b]];
+    const loop = draft.loopFrom;
+    setBlocks(blocks, loop === b ? b + delta : loop === b + delta ? b : loop);
+  };
+
+  const removeBlock = (b: number) =>
+    setBlocks(
+      draft.blocks.filter((_, i) => i !== b),
+      draft.loopFrom > b ? draft.loopFrom - 1 : draft.loopFrom
+    );
+
+  const duplicate = () => {
+    const copy = copyProfile(draft, `${active.name} 副本`);
+    onChange([...profiles, copy], copy.id);
+  };
+
+  const remove = () => {
+    if (!window.confirm(`确定删除方案「${active.name}」？`)) return;
+    onChange(profiles.filter((p) => p.id !== active.id), defaultProfileId);
+  };
+
+  const smallButton = (label: string, onClick: () => void, disabled = false) => (
+    <button
+      className="px-1.5 rounded text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+      disabled={disabled}
+      onClick={onClick}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-3 w-full max-w-md text-sm rounded-xl border border-gray-200 p-3">
+      <div className="flex items-center gap-2">
+        {editable ? (
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="flex-1 border rounded px-2 py-1 font-bold"
+            placeholder="方案名称"
+          />
+        ) : (
+          <span className="flex-1 font-bold">{active.name}</span>
+        )}
+        <button className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200" onClick={duplicate}>
+          复制
+        </button>
+        {editable && (
+          <button className="px-2 py-1 rounded text-red-600 hover:bg-red-50" onClick={remove}>
+            删除
+          </button>
+        )}
+      </div>
+      {!editable && <p className="text-xs text-gray-500">内置方案不能修改，复制后可编辑。</p>}
+
+      {/* 区块：每个区块中的间隔按顺序进行，整体重复若干次 */}
+      {draft.blocks.map((block, b) => (
+        <div key={b} className="flex flex-col gap-1 rounded-lg bg-gray-50 p-2">
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500">区块 {b + 1}</span>
+            <label className="flex items-center gap-1">
+              重复
+              <input
+                type="number"
+                min={1}
+                value={block.repeat}
+                disabled={!editable}
+                onChange={(e) => updateBlock(b, { repeat: Math.max(1, Math.floor(Number(e.target.value))) })}
+                className="border rounded px-1 w-12 text-center"
+              />
+              次
+            </label>
+            {editable && (
+              <span className="ml-auto">
+                {smallButton("↑", () => moveBlock(b, -1), b === 0)}
+                {smallButton("↓", () => moveBlock(b, 1), b === draft.blocks.length - 1)}
+                {smallButton("×", () => removeBlock(b))}
+              </span>
+            )}
+          </div>
+          {block.intervals.map((interval, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <input
+                value={interval.name}
+                disabled={!editable}
+                onChange={(e) => updateInterval(b, i, { name: e.target.value })}
+                className="flex-1 min-w-0 border rounded px-1"
+              />
+              <select
+                value={interval.phase}
+                disabled={!editable}
+                onChange={(e) => updateInterval(b, i, { phase: e.target.value as Phase })}
+                className="border rounded px-1"
+              >
+                {phaseOptions.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={interval.minutes}
+                disabled={!editable}
+                onChange={(e) => updateInterval(b, i, { minutes: Math.max(0, Number(e.target.value)) })}
+                className="border rounded px-1 w-14 text-center"
+              />
+              分钟
+              {editable &&
+                smallButton("×", () => updateBlock(b, { intervals: block.intervals.filter((_, j) => j !== i) }))}
+            </div>
+          ))}
+          {editable && (
+            <button
+              className="self-start text-xs text-blue-600 hover:underline"
+              onClick={() =>
+                updateBlock(b, { intervals: [...block.intervals, { name: "工作", phase: "work", minutes: 25 }] })
+              }
+            >
+              + 间隔
+            </button>
+          )}
+        </div>
+      ))}
+      {editable && (
+        <button
+          className="self-start text-xs text-blue-600 hover:underline"
+          onClick={() => setBlocks([...draft.blocks, { repeat: 1, intervals: [] }])}
+        >
+          + 区块
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label>
+          循环起点:{" "}
+          <select
+            value={draft.loopFrom}
+            disabled={!editable}
+            onChange={(e) => setDraft({ ...draft, loopFrom: Number(e.target.value) })}
+            className="border rounded px-1"
+          >
+            {draft.blocks.map((_, b) => (
+              <option key={b} value={b}>
+                区块 {b + 1}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="text-xs text-gray-500">
+          每轮 {steps.length - loopStart} 个阶段，共 {Math.round(cycleMinutes)} 分钟
+        </span>
+      </div>
+
+      {editable && (
+        <div className="flex items-center gap-2">
+          {!valid && <span className="text-xs text-red-500">方案需要名称，且至少有一个时长为正数的间隔</span>}
+          <button
+            className="ml-auto px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+            disabled={!changed}
+            onClick={() => setDraft(active)}
+          >
+            还原
+          </button>
+          <button
+            className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+            disabled={!changed || !valid}
+            onClick={() => onChange(profiles.map((p) => (p.id === draft.id ? draft : p)), draft.id)}
+          >
+            保存
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PomodoroProfiles;
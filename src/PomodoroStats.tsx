@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from "react";
+import { downloadFile } from "./download.ts";
+import { clearSessions, loadSessions, sessionsToCsv, sessionsToIcs, type SessionRecord } from "./pomodoroLog.ts";
+import { computeStats } from "./pomodoroStats.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 统计面板的 Props
+ */
+interface PomodoroStatsProps {
+  refreshKey: number; // 有新记录写入时改变，触发重新读取
+}
+
+interface SessionLog {
+  sessions: SessionRecord[];
+  loadedAt: number; // 读取时间，作为 "今天" 的基准
+}
+
+/**
+ * 热力图颜色分级：当天专注分钟数达到的下限
+ */
+const heatLevels: { min: number; className: string }[] = [
+  { min: 100, className: "bg-green-700" },
+  { min: 50, className: "bg-green-500" },
+  { min: 25, className: "bg-green-300" },
+  { min: 1, className: "bg-green-100" },
+];
+
+// --- 帮助函数 ---
+
+const heatClass = (minutes: number): string =>
+  heatLevels.find((level) => minutes >= level.min)?.className ?? "bg-gray-200";
+
+const formatMinutes = (minutes: number): string =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分` : `${minutes} 分钟`;
+
+// --- 组件 ---
+
+/**
+ * 专注统计：每天、每周的专注时间，连续天数，完成率与日历热力图；记录可导出
+ */
+const PomodoroStats: React.FC<PomodoroStatsProps> = ({ refreshKey }) => {
+  const [log, setLog] = useState<SessionLog | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadSessions()
+      .then((sessions) => setLog({ sessions, loadedAt: Date.now() }))
+      .catch(() => setError("无法读取记录 (浏览器可能禁用了 IndexedDB)"));
+  }, [refreshKey]);
+
+  if (error) return <p className="text-sm text-red-500">{error}</p>;
+  if (!log) return <p className="text-sm text-gray-500">读取记录中…</p>;
+
+  const stats = computeStats(log.sessions, log.loadedAt);
+  const highestDay = Math.max(1, ...stats.days.map((d) => d.minutes));
+  const highestWeek = Math.max(1, ...stats.weeks.map((w) => w.minutes));
+
+  const clear = () => {
+    if (!window.confirm("确定清空全部番茄钟记录？")) return;
+    clearSessions()
+      .then(() => setLog({ sessions: [], loadedAt: Date.now() }))
+      .catch(() => setError("无法清空记录 (浏览器可能禁用了 IndexedDB)"));
+  };
+
+  const cards: [string, string][] = [
+    ["今天", formatMinutes(stats.today)],
+    ["本周", formatMinutes(stats.thisWeek)],
+    ["连续天数", `${stats.streak} 天`],
+    ["完成率", stats.completionRate === null ? "—" : `${Math.round(stats.completionRate * 100)}%`],
+  ];
+
+  const bars = (items: { key: string; label: string; minutes: number }[], highest: number) => (
+    <div className="flex items-end gap-1 h-24">
+      {items.map((item) => (
+        <div key={item.key} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+          <div
+            className="w-full bg-yellow-400 rounded-t"
+            style={{ height: `${(item.minutes / highest) * 100}%` }}
+            title={formatMinutes(item.minutes)}
+          />
+          <span className="text-xs text-gray-500">{item.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-4 w-full text-sm">
+      {/* 概览 */}
+      <div className="grid grid-cols-4 gap-2">
+        {cards.map(([label, value]) => (
+          <div key={label} className="rounded-xl bg-gray-100 p-2 text-center">
+            <div className="text-gray-500">{label}</div>
+            <div className="font-bold">{value}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        共完成 {stats.completed} 个番茄，记录 {log.sessions.length} 条 (含休息与中断)
+      </p>
+
+      {/* 最近 7 天与最近 8 周 */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <h3 className="font-bold mb-1">最近 7 天</h3>
+          {bars(stats.days, highestDay)}
+        </div>
+        <div>
+          <h3 className="font-bold mb-1">最近 8 周</h3>
+          {bars(stats.weeks, highestWeek)}
+        </div>
+      </div>
+
+      {/* 日历热力图：每列一周，从周一到周日 */}
+      <div>
+        <h3 className="font-bold mb-1">过去一年</h3>
+        <div className="flex gap-[2px] overflow-x-auto">
+          {stats.heatmap.map((week) => (
+            <div key={week[0].key} className="flex flex-col gap-[2px]">
+              {week.map((day) => (
+                <div
+                  key={day.key}
+                  className={`w-2.5 h-2.5 rounded-sm ${day.future ? "bg-transparent" : heatClass(day.minutes)}`}
+                  title={day.future ? undefined : `${day.key}：${formatMinutes(day.minutes)}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 导出与清空 */}
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+          disabled={log.sessions.length === 0}
+          onClick={() => downloadFile("pomodoro.csv", sessionsToCsv(log.sessions), "text/csv;charset=utf-8")}
+        >
+          导出 CSV
+        </button>
+        <button
+          className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+          disabled={log.sessions.length === 0}
+          onClick={() => downloadFile("pomodoro.ics", sessionsToIcs(log.sessions), "text/calendar;charset=utf-8")}
+        >
+          导出日历 (.ics)
+        </button>
+        <button
+          className="ml-auto px-3 py-1 rounded text-red-600 hover:bg-red-50 disabled:opacity-50"
+          disabled={log.sessions.length === 0}
+          onClick={clear}
+        >
+          清空记录
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PomodoroStats;
@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { createTask, moveTask, updateTask, type Task } from "./pomodoroTasks.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 任务清单的 Props
+ */
+interface PomodoroTasksProps {
+  tasks: Task[];
+  activeId: string | null; // 当前进行的任务
+  onChange: (tasks: Task[]) => void;
+  onSelect: (task: Task | null) => void;
+}
+
+// --- 组件 ---
+
+/**
+ * 任务清单：添加任务并预估番茄数，选择当前任务，标记完成、排序与归档
+ */
+const PomodoroTasks: React.FC<PomodoroTasksProps> = ({ tasks, activeId, onChange, onSelect }) => {
+  const [title, setTitle] = useState("");
+  const [estimate, setEstimate] = useState(1);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const visible = tasks.filter((t) => !t.archived);
+  const archived = tasks.filter((t) => t.archived);
+  const pending = visible.filter((t) => !t.done);
+
+  const addTask = () => {
+    if (!title.trim()) return;
+    const task = createTask(title.trim(), estimate);
+    onChange([...tasks, task]);
+    // 还没有当前任务时，新任务直接成为当前任务
+    if (activeId === null) onSelect(task);
+    setTitle("");
+    setEstimate(1);
+  };
+
+  const iconButton = (label: string, title: string, onClick: () => void, disabled = false) => (
+    <button
+      className="px-1 rounded text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+      title={title}
+      disabled={disabled}
+      onClick={onClick}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-2 w-full max-w-md text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold">任务</h3>
+        {pending.length > 0 && (
+          <span className="text-xs text-gray-500">
+            未完成 {pending.length} 个 · 预估 {pending.reduce((sum, t) => sum + t.estimate, 0)} 个番茄
+          </span>
+        )}
+      </div>
+
+      {/* 添加任务 */}
+      <div className="flex gap-2">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addTask()}
+          placeholder="新任务"
+          className="flex-1 border rounded px-2 py-1"
+        />
+        <input
+          type="number"
+          min={1}
+          value={estimate}
+          onChange={(e) => setEstimate(Math.max(1, Number(e.target.value)))}
+          className="border rounded px-2 py-1 w-14 text-center"
+          title="预估番茄数"
+        />
+        <button
+          className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+          disabled={!title.trim()}
+          onClick={addTask}
+        >
+          添加
+        </button>
+      </div>
+
+      {/* 任务列表：单选当前任务，完成的工作阶段计入该任务 */}
+      {visible.map((task, i) => (
+        <div
+          key={task.id}
+          className={`flex items-center gap-2 px-2 py-1 rounded ${
+            task.id === activeId ? "bg-yellow-50 ring-1 ring-yellow-400" : "hover:bg-gray-50"
+          }`}
+        >
+          <input
+            type="radio"
+            name="pomodoroActiveTask"
+            checked={task.id === activeId}
+            disabled={task.done}
+            onChange={() => onSelect(task)}
+            title="设为当前任务"
+          />
+          <input
+            type="checkbox"
+            checked={task.done}
+            onChange={(e) => onChange(updateTask(tasks, task.id, { done: e.target.checked }))}
+            title="标记完成"
+          />
+          <span className={`flex-1 truncate ${task.done ? "line-through text-gray-400" : ""}`}>{task.title}</span>
+          <span
+            className={`font-mono text-xs ${task.actual > task.estimate ? "text-red-500" : "text-gray-500"}`}
+            title="实际 / 预估番茄数"
+          >
+            {task.actual}/{task.estimate}
+          </span>
+          {iconButton("↑", "上移", () => onChange(moveTask(tasks, task.id, -1)), i === 0)}
+          {iconButton("↓", "下移", () => onChange(moveTask(tasks, task.id, 1)), i === visible.length - 1)}
+          {iconButton("归档", "归档", () => onChange(updateTask(tasks, task.id, { archived: true })))}
+        </div>
+      ))}
+
+      {/* 已归档的任务 */}
+      {archived.length > 0 && (
+        <button
+          className="self-start text-xs text-gray-500 hover:underline"
+          onClick={() => setShowArchived(!showArchived)}
+        >
+          {showArchived ? "隐藏" : "显示"}已归档 ({archived.length})
+        </button>
+      )}
+      {showArchived &&
+        archived.map((task) => (
+          <div key={task.id} className="flex items-center gap-2 px-2 py-1 text-gray-400">
+            <span className="flex-1 truncate">{task.title}</span>
+            <span className="font-mono text-xs">
+              {task.actual}/{task.estimate}
+            </span>
+            {iconButton("恢复", "恢复到清单", () => onChange(updateTask(tasks, task.id, { archived: false })))}
+            {iconButton("删除", "删除", () => onChange(tasks.filter((t) => t.id !== task.id)))}
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default PomodoroTasks;
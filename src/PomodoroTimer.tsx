@@ -1,93 +1,426 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import {
+  advancePhase,
+  applyProfile,
+  catchUp,
+  endSession,
+  isRunning,
+  loadSettings,
+  loadTimer,
+  pauseTimer,
+  saveSettings,
+  saveTimer,
+  startTimer,
+  timeLeft,
+  type Phase,
+  type PomodoroSettings,
+  type TimerState,
+} from "./pomodoro.ts";
+import {
+  chimeSounds,
+  notificationsSupported,
+  playChime,
+  requestNotificationPermission,
+  restoreFavicon,
+  setProgressFavicon,
+  showNotification,
+  unlockAudio,
+  type ChimeSound,
+} from "./pomodoroAlerts.ts";
+import { addSessions, type SessionRecord } from "./pomodoroLog.ts";
+import { expandSteps, findProfile, loadProfiles, saveProfiles, type Profile } from "./pomodoroProfiles.ts";
+import { creditSessions, loadTasks, saveTasks, taskRef, type Task } from "./pomodoroTasks.ts";
+import { claimPhaseEnd, connectSync, type TimerSync } from "./pomodoroSync.ts";
+import PomodoroProfiles from "./PomodoroProfiles.tsx";
+import PomodoroStats from "./PomodoroStats.tsx";
+import PomodoroTasks from "./PomodoroTasks.tsx";
+
+const phaseColors: Record<Phase, string> = {
+  work: "text-yellow-600",
+  shortBreak: "text-green-600",
+  longBreak: "text-blue-600",
+};
+
+// 方案进度中每个步骤的圆点颜色
+const stepColors: Record<Phase, string> = {
+  work: "bg-yellow-500",
+  shortBreak: "bg-green-500",
+  longBreak: "bg-blue-500",
+};
+
+// 进度 favicon 的颜色，与阶段文字颜色一致
+const faviconColors: Record<Phase, string> = {
+  work: "#ca8a04",
+  shortBreak: "#16a34a",
+  longBreak: "#2563eb",
+};
+
+const format = (sec: number): string => {
+  const m = Math.floor(sec / 60)
+    .toString()
+    .padStart(2, "0");
+  const s = (sec % 60).toString().padStart(2, "0");
+  return `${m}:${s}`;
+};
+
+/**
+ * 写入阶段记录，完成后回调；IndexedDB 不可用时忽略，不影响计时
+ */
+const saveSessions = (sessions: SessionRecord[], onSaved: () => void): void => {
+  if (sessions.length === 0) return;
+  addSessions(sessions).then(onSaved, () => {});
+};
 
 function PomodoroTimer() {
-  const [workMinutes, setWorkMinutes] = useState<number>(25); // 默认工作25分钟
-  const [breakMinutes, setBreakMinutes] = useState<number>(5); // 默认休息5分钟
-  const [timeLeft, setTimeLeft] = useState<number>(workMinutes * 60);
-  const [isRunning, setIsRunning] = useState<boolean>(false);
-  const [isWork] = useState<boolean>(true);
+  const [settings, setSettings] = useState<PomodoroSettings>(loadSettings);
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const profile = findProfile(profiles, settings.profileId);
+  // 恢复上次的计时状态，并补算页面关闭期间经过的阶段
+  const [restored] = useState(() => loadTimer(profile, settings));
+  const [timer, setTimer] = useState<TimerState>(restored.state);
+  // 页面关闭期间完成的番茄同样计入任务
+  const [tasks, setTasks] = useState<Task[]>(() => creditSessions(loadTasks(), restored.sessions));
+  const [now, setNow] = useState(() => Date.now());
+  // 每写入一次记录加一，统计面板据此重新读取
+  const [logVersion, setLogVersion] = useState(0);
+  const [showStats, setShowStats] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  // interval 回调中读取最新的计时状态，用于判断阶段是否刚刚结束
+  const timerRef = useRef<TimerState>(timer);
+  // 与其他标签页同步；从其他标签页收到的状态记在 remoteRef 中，不再转发回去
+  const syncRef = useRef<TimerSync | null>(null);
+  const remoteRef = useRef<{
+    timer?: TimerState;
+    settings?: PomodoroSettings;
+    tasks?: Task[];
+    profiles?: Profile[];
+  }>({});
+
+  useEffect(() => {
+    timerRef.current = timer;
+  }, [timer]);
 
-  // 当工作或休息时间修改时，重置倒计时
   useEffect(() => {
-    if (isWork) {
-      setTimeLeft(workMinutes * 60);
-    } else {
-      setTimeLeft(breakMinutes * 60);
-    }
-  }, [workMinutes, breakMinutes, isWork]);
+    const sync = connectSync((message) => {
+      if (message.type === "timer") {
+        remoteRef.current.timer = message.state;
+        timerRef.current = message.state;
+        setTimer(message.state);
+        setNow(Date.now());
+      } else if (message.type === "settings") {
+        remoteRef.current.settings = message.settings;
+        setSettings(message.settings);
+      } else if (message.type === "tasks") {
+        remoteRef.current.tasks = message.tasks;
+        setTasks(message.tasks);
+      } else {
+        remoteRef.current.profiles = message.profiles;
+        setProfiles(message.profiles);
+      }
+    });
+    syncRef.current = sync;
+    return () => {
+      sync.close();
+      syncRef.current = null;
+    };
+  }, []);
 
   useEffect(() => {
-    if (!isRunning) return;
+    // 记录页面关闭期间结束的阶段 (id 固定，重复写入不会产生重复记录)
+    saveSessions(restored.sessions, () => setLogVersion((v) => v + 1));
+  }, [restored]);
 
-    const timer = setInterval(() => {
-      setTimeLeft((t) => {
-        if (t > 0) return t - 1;
+  useEffect(() => {
+    // 持久化设置
+    saveSettings(settings);
+    if (remoteRef.current.settings !== settings) syncRef.current?.post({ type: "settings", settings });
+  }, [settings]);
 
-        // 倒计时结束后暂停
-        setIsRunning(false);
-        return 0;
+  useEffect(() => {
+    // 持久化自定义方案
+    saveProfiles(profiles);
+    if (remoteRef.current.profiles !== profiles) syncRef.current?.post({ type: "profiles", profiles });
+  }, [profiles]);
+
+  useEffect(() => {
+    // 持久化任务清单
+    saveTasks(tasks);
+    if (remoteRef.current.tasks !== tasks) syncRef.current?.post({ type: "tasks", tasks });
+  }, [tasks]);
+
+  useEffect(() => {
+    // 持久化计时状态 (阶段、结束时间、暂停时的剩余时间)
+    saveTimer(timer);
+    if (remoteRef.current.timer !== timer) syncRef.current?.post({ type: "timer", state: timer });
+  }, [timer]);
+
+  useEffect(() => {
+    if (timer.endsAt === null) return;
+
+    // 剩余时间由结束时间推算，interval 只负责刷新显示；
+    // 后台标签页被节流时，切回前台立即按当前时间校正
+    const update = () => {
+      const current = Date.now();
+      setNow(current);
+      // 结束时间已过时按方案进入下一个阶段 (工作 -> 休息 -> 工作)
+      const previous = timerRef.current;
+      const { state: next, sessions } = catchUp(previous, profile, settings, current);
+      if (next === previous) return;
+      timerRef.current = next;
+      setTimer(next);
+      // 记录 id 固定，多个标签页重复写入也只有一条
+      saveSessions(sessions, () => setLogVersion((v) => v + 1));
+
+      // 每个打开的标签页都会推算到阶段结束，只有争取到的那个负责提醒与任务计数
+      void claimPhaseEnd(`${previous.phase}-${previous.endsAt}`).then((claimed) => {
+        if (!claimed) return;
+        setTasks((list) => creditSessions(list, sessions));
+        // 阶段结束提醒：提示音与桌面通知 (后台补算多个阶段时只提醒一次)
+        playChime(settings.sound, settings.volume / 100);
+        if (settings.notifications) {
+          showNotification(
+            "番茄钟",
+            `${previous.label}结束，${isRunning(next) ? "已开始" : "下一阶段："}${next.label}`
+          );
+        }
       });
-    }, 1000);
+    };
+    const interval = setInterval(update, 250);
+    document.addEventListener("visibilitychange", update);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", update);
+    };
+  }, [timer.endsAt, settings, profile]);
+
+  const running = isRunning(timer);
+  const seconds = Math.ceil(timeLeft(timer, now) / 1000);
+  const progress = 1 - (seconds * 1000) / timer.planned;
+  const title = running ? `${format(seconds)} ${timer.label} · 番茄钟` : null;
+  const { steps } = expandSteps(profile);
+  // 切换方案后当前阶段可能不在新方案中
+  const currentStep = steps[timer.step]?.phase === timer.phase ? steps[timer.step] : undefined;
+
+  useEffect(() => {
+    if (!running) return;
+    // 计时期间标题与 favicon 显示倒计时，停止后恢复
+    const original = document.title;
+    return () => {
+      document.title = original;
+      restoreFavicon();
+    };
+  }, [running]);
+
+  useEffect(() => {
+    if (title === null) return;
+    document.title = title;
+    setProgressFavicon(progress, faviconColors[timer.phase]);
+  }, [title, progress, timer.phase]);
+
+  // 中途跳过或重置时，已开始的阶段记为中断
+  const recordAborted = (current: number) => {
+    const session = endSession(timer, current, false);
+    if (session) saveSessions([session], () => setLogVersion((v) => v + 1));
+  };
+
+  const updateSettings = (patch: Partial<PomodoroSettings>) => {
+    setSettings({ ...settings, ...patch });
+  };
+
+  // 切换或修改方案不会打断已开始的阶段，新时长从下一阶段起生效
+  const changeProfiles = (next: Profile[], profileId: string) => {
+    setProfiles(next);
+    updateSettings({ profileId });
+    setTimer(applyProfile(timer, findProfile(next, profileId)));
+  };
 
-    return () => clearInterval(timer);
-  }, [isRunning]);
+  const resetTimer = () => {
+    recordAborted(Date.now());
+    setTimer(applyProfile({ ...timer, endsAt: null, startedAt: null }, profile));
+  };
+
+  const skipPhase = () => {
+    const current = Date.now();
+    setNow(current);
+    recordAborted(current);
+    setTimer(advancePhase(timer, profile, settings, false, current));
+  };
+
+  const selectTask = (task: Task | null) => {
+    setTimer({ ...timer, task: task ? taskRef(task) : null });
+  };
+
+  // 当前任务被标记完成、归档或删除后不再计数
+  const changeTasks = (next: Task[]) => {
+    setTasks(next);
+    const active = next.find((t) => t.id === timer.task?.id);
+    if (timer.task && (!active || active.done || active.archived)) selectTask(null);
+  };
 
-  const format = (sec: number): string => {
-    const m = Math.floor(sec / 60)
-      .toString()
-      .padStart(2, "0");
-    const s = (sec % 60).toString().padStart(2, "0");
-    return `${m}:${s}`;
+  const toggleRunning = () => {
+    // 借助这次点击解锁音频，阶段结束时才能在后台播放提示音
+    unlockAudio();
+    const current = Date.now();
+    setNow(current);
+    setTimer(running ? pauseTimer(timer, current) : startTimer(timer, current));
+  };
+
+  const toggleNotifications = async (enabled: boolean) => {
+    updateSettings({ notifications: enabled && (await requestNotificationPermission()) });
   };
 
   return (
-    <div className="p-4 rounded-2xl bg-white flex flex-col items-center gap-3 w-full relative">
+    <div className="p-4 rounded-2xl bg-white flex flex-col items-center gap-3 w-full relative min-h-[28rem]">
       {/* 左上角输入框 */}
       <div className="absolute top-4 left-10 flex flex-col gap-2 text-sm">
         <label>
-          工作时间 (分钟):{" "}
+          计时方案:{" "}
+          <select
+            value={profile.id}
+            onChange={(e) => changeProfiles(profiles, e.target.value)}
+            className="border rounded px-1 py-1 max-w-[10rem]"
+          >
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>{" "}
+          <button
+            className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200"
+            onClick={() => setShowProfiles(!showProfiles)}
+          >
+            {showProfiles ? "收起" : "编辑"}
+          </button>
+        </label>
+        <label className="flex items-center gap-1">
           <input
-            type="number"
-            min={1}
-            value={workMinutes}
-            onChange={(e) => setWorkMinutes(Number(e.target.value))}
-            className="border rounded px-2 py-1 w-16 text-center"
+            type="checkbox"
+            checked={settings.autoStartBreaks}
+            onChange={(e) => updateSettings({ autoStartBreaks: e.target.checked })}
           />
+          自动开始休息
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={settings.autoStartWork}
+            onChange={(e) => updateSettings({ autoStartWork: e.target.checked })}
+          />
+          自动开始工作
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={settings.notifications}
+            disabled={!notificationsSupported()}
+            onChange={(e) => toggleNotifications(e.target.checked)}
+          />
+          桌面通知
+          {notificationsSupported() && Notification.permission === "denied" && (
+            <span className="text-xs text-red-500">(已被浏览器禁止)</span>
+          )}
         </label>
         <label>
-          休息时间 (分钟):{" "}
+          提示音:{" "}
+          <select
+            value={settings.sound}
+            onChange={(e) => updateSettings({ sound: e.target.value as ChimeSound })}
+            className="border rounded px-1 py-1"
+          >
+            {chimeSounds.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.label}
+              </option>
+            ))}
+          </select>{" "}
+          <button
+            className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+            disabled={settings.sound === "none"}
+            onClick={() => playChime(settings.sound, settings.volume / 100)}
+          >
+            试听
+          </button>
+        </label>
+        <label className="flex items-center gap-2">
+          音量:
           <input
-            type="number"
-            min={1}
-            value={breakMinutes}
-            onChange={(e) => setBreakMinutes(Number(e.target.value))}
-            className="border rounded px-2 py-1 w-16 text-center"
+            type="range"
+            min={0}
+            max={100}
+            value={settings.volume}
+            onChange={(e) => updateSettings({ volume: Number(e.target.value) })}
+            className="w-24"
           />
+          <span className="w-8 text-right">{settings.volume}</span>
         </label>
       </div>
 
       {/* 中间倒计时 */}
       <h2 className="text-xl font-bold">番茄钟</h2>
-      <div className="text-4xl font-mono">{format(timeLeft)}</div>
-      <div className={`text-sm font-bold ${isWork ? "text-yellow-600" : "text-green-600"}`}>{isWork ? "工作时间" : "休息时间"}</div>
+      <div className="text-4xl font-mono">{format(seconds)}</div>
+      <div className={`text-sm font-bold ${phaseColors[timer.phase]}`}>
+        {timer.label}
+        {currentStep && currentStep.rounds > 1 && ` (${currentStep.round}/${currentStep.rounds})`}
+      </div>
+      {timer.task && <div className="text-sm text-gray-600 max-w-xs truncate">当前任务：{timer.task.title}</div>}
+
+      {/* 番茄计数：方案中的进度与累计完成数 */}
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span className="flex items-center gap-1" title={profile.name}>
+          {steps.map((step, i) => (
+            <span
+              key={i}
+              className={`w-2 h-2 rounded-full ${stepColors[step.phase]} ${
+                step === currentStep ? "ring-2 ring-offset-1 ring-gray-400" : i < timer.step ? "" : "opacity-30"
+              }`}
+              title={`${step.name} ${step.minutes} 分钟`}
+            />
+          ))}
+        </span>
+        <span>已完成 {timer.completed} 个番茄</span>
+        <button
+          className="text-xs text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          disabled={timer.completed === 0}
+          onClick={() => setTimer({ ...timer, completed: 0 })}
+        >
+          清零
+        </button>
+      </div>
 
       {/* 控制按钮 */}
       <button
         className="px-4 py-2 rounded-xl shadow bg-gray-100 hover:bg-gray-200"
-        onClick={() => setIsRunning(!isRunning)}
+        onClick={toggleRunning}
       >
-        {isRunning ? "暂停" : "开始"}
+        {running ? "暂停" : "开始"}
       </button>
 
       <button
         className="px-4 py-2 rounded-xl shadow bg-gray-100 hover:bg-gray-200"
-        onClick={() => {
-          setIsRunning(false);
-          setTimeLeft(isWork ? workMinutes * 60 : breakMinutes * 60);
-        }}
+        onClick={resetTimer}
       >
         重置
       </button>
+
+      <button
+        className="px-4 py-2 rounded-xl shadow bg-gray-100 hover:bg-gray-200"
+        onClick={skipPhase}
+      >
+        跳过
+      </button>
+
+      {showProfiles && (
+        <PomodoroProfiles key={profile.id} profiles={profiles} active={profile} onChange={changeProfiles} />
+      )}
+
+      <PomodoroTasks tasks={tasks} activeId={timer.task?.id ?? null} onChange={changeTasks} onSelect={selectTask} />
+
+      <button className="text-sm text-blue-600 hover:underline" onClick={() => setShowStats(!showStats)}>
+        {showStats ? "收起统计" : "专注统计"}
+      </button>
+      {showStats && <PomodoroStats refreshKey={logVersion} />}
     </div>
   );
 }
@@ -0,0 +1,304 @@
+// 日期与时间运算：日期间隔、加减时长、工作日、时区与 Unix 时间戳。
+// 日期运算统一使用 "墙上时间"：把本地日期时间按 UTC 解释成毫秒数，
+// 这样加减天数、计算间隔都不受夏令时影响；时区换算再单独通过 Intl 完成。
+
+import { Decimal, type DecimalContext } from "./calcDecimal.ts";
+
+// --- 类型定义 ---
+
+export type DurationUnit =
+  | "second"
+  | "minute"
+  | "hour"
+  | "day"
+  | "week"
+  | "month"
+  | "year"
+  | "businessDay"; // 工作日 (周一至周五)
+
+export const durationUnits: { value: DurationUnit; label: string }[] = [
+  { value: "day", label: "天" },
+  { value: "week", label: "周" },
+  { value: "businessDay", label: "工作日" },
+  { value: "month", label: "月" },
+  { value: "year", label: "年" },
+  { value: "hour", label: "小时" },
+  { value: "minute", label: "分钟" },
+  { value: "second", label: "秒" },
+];
+
+/**
+ * 固定长度单位对应的毫秒数 (月、年、工作日长度不固定，单独处理)
+ */
+const msPerUnit: Partial<Record<DurationUnit, number>> = {
+  second: 1000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+};
+
+const msPerDay = 86_400_000;
+
+/**
+ * JS Date 能表示的最大毫秒数
+ */
+const maxTime = 8.64e15;
+
+/**
+ * 按天逐日计算工作日时的上限 (约 270 年)，避免过大的输入卡住页面
+ */
+const maxBusinessDaySpan = 100_000;
+
+const weekdayLabels = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
+
+// --- 帮助函数 ---
+
+const pad = (n: number, width = 2): string => String(n).padStart(width, "0");
+
+const checkRange = (ms: number): number => {
+  if (!Number.isFinite(ms) || Math.abs(ms) > maxTime) throw new RangeError("日期超出范围");
+  return ms;
+};
+
+/**
+ * 解析 <input type="datetime-local"> 或 <input type="date"> 的值为墙上时间毫秒数
+ */
+export const parseWallTime = (text: string): number | null => {
+  const match = /^(\d{4,})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(text);
+  if (!match) return null;
+  const [, y, mo, d, h = "0", mi = "0", s = "0"] = match;
+  return Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+};
+
+/**
+ * 墙上时间转换为 datetime-local 输入框的值
+ */
+export const toInputValue = (ms: number): string => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}T${pad(
+    d.getUTCHours()
+  )}:${pad(d.getUTCMinutes())}`;
+};
+
+/**
+ * 当前时刻的本地墙上时间
+ */
+export const nowWallTime = (): number => {
+  const now = new Date();
+  return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours(), now.getMinutes());
+};
+
+/**
+ * 显示用的日期时间，例如 "2026-10-19 周一 09:30"；秒不为 0 时显示秒
+ */
+export const formatWallTime = (ms: number): string => {
+  const d = new Date(ms);
+  const seconds = d.getUTCSeconds() || d.getUTCMilliseconds() ? `:${pad(d.getUTCSeconds())}` : "";
+  const millis = d.getUTCMilliseconds() ? `.${pad(d.getUTCMilliseconds(), 3)}` : "";
+  return (
+    `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ` +
+    `${weekdayLabels[d.getUTCDay()]} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}${seconds}${millis}`
+  );
+};
+
+const isWeekend = (ms: number): boolean => {
+  const day = new Date(ms).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+/**
+ * 两个日期之间的工作日数：不含起始日、含结束日，结束早于开始时为负数
+ */
+export const countBusinessDays = (start: number, end: number): number => {
+  const from = Math.floor(Math.min(start, end) / msPerDay);
+  const to = Math.floor(Math.max(start, end) / msPerDay);
+  if (to - from > maxBusinessDaySpan) throw new RangeError("日期间隔过大，无法计算工作日");
+  let count = 0;
+  for (let day = from + 1; day <= to; day++) {
+    if (!isWeekend(day * msPerDay)) count++;
+  }
+  return end < start ? -count : count;
+};
+
+/**
+ * 日期间隔换算为指定单位；月、年按日历计算整月数
+ */
+export const diffIn = (start: number, end: number, unit: DurationUnit, ctx: DecimalContext): Decimal => {
+  if (unit === "businessDay") return Decimal.fromNumber(countBusinessDays(start, end));
+  if (unit === "month" || unit === "year") {
+    const months = wholeMonthsBetween(start, end);
+    return unit === "month" ? Decimal.fromNumber(months) : Decimal.fromNumber(months).div(Decimal.fromNumber(12), ctx);
+  }
+  return Decimal.fromNumber(end - start).div(Decimal.fromNumber(msPerUnit[unit]!), ctx);
+};
+
+/**
+ * 两个日期之间的整月数 (向零取整)
+ */
+const wholeMonthsBetween = (start: number, end: number): number => {
+  const a = new Date(start);
+  const b = new Date(end);
+  let months = (b.getUTCFullYear() - a.getUTCFullYear()) * 12 + b.getUTCMonth() - a.getUTCMonth();
+  // 不满一个月的部分舍去
+  if (months > 0 && addMonths(start, months) > end) months--;
+  if (months < 0 && addMonths(start, months) < end) months++;
+  return months;
+};
+
+/**
+ * 加减月份；目标月份没有对应日期时取月末 (1 月 31 日 + 1 个月 = 2 月 28/29 日)
+ */
+const addMonths = (ms: number, months: number): number => {
+  const d = new Date(ms);
+  const target = new Date(ms);
+  target.setUTCDate(1);
+  target.setUTCMonth(d.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d.getUTCDate(), lastDay));
+  return target.getTime();
+};
+
+/**
+ * 按工作日加减，跳过周六周日
+ */
+const addBusinessDays = (ms: number, days: number): number => {
+  if (Math.abs(days) > maxBusinessDaySpan) throw new RangeError("工作日数量过大");
+  const step = days < 0 ? -msPerDay : msPerDay;
+  let result = ms;
+  for (let left = Math.abs(days); left > 0; ) {
+    result += step;
+    if (!isWeekend(result)) left--;
+  }
+  return result;
+};
+
+/**
+ * 给墙上时间加上 (amount 为负时减去) 一段时长；月、年、工作日只接受整数
+ */
+export const addDuration = (ms: number, amount: number, unit: DurationUnit): number => {
+  if (!Number.isFinite(amount)) throw new RangeError("无效的时长");
+  const fixed = msPerUnit[unit];
+  if (fixed !== undefined) return checkRange(ms + Math.round(amount * fixed));
+  if (!Number.isInteger(amount)) throw new RangeError("月、年与工作日只能加减整数");
+  switch (unit) {
+    case "month":
+      return checkRange(addMonths(ms, amount));
+    case "year":
+      return checkRange(addMonths(ms, amount * 12));
+    default:
+      return checkRange(addBusinessDays(ms, amount));
+  }
+};
+
+/**
+ * 将毫秒数拆成 "x 周 x 天 x 小时 x 分" 这样的可读文本
+ */
+export const formatDuration = (ms: number): string => {
+  const sign = ms < 0 ? "−" : "";
+  let rest = Math.abs(ms);
+  const parts: string[] = [];
+  for (const [unit, label] of [
+    ["week", "周"],
+    ["day", "天"],
+    ["hour", "小时"],
+    ["minute", "分"],
+    ["second", "秒"],
+  ] as const) {
+    const size = msPerUnit[unit]!;
+    const n = Math.floor(rest / size);
+    rest -= n * size;
+    if (n) parts.push(`${n} ${label}`);
+  }
+  return parts.length ? sign + parts.join(" ") : "0 秒";
+};
+
+// --- 时区 ---
+
+/**
+ * 本机时区
+ */
+export const localTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * 可选的时区列表；旧浏览器不支持 Intl.supportedValuesOf 时提供常用时区
+ */
+export const timeZones = (): string[] => {
+  try {
+    return ["UTC", ...Intl.supportedValuesOf("timeZone").filter((z) => z !== "UTC")];
+  } catch {
+    return ["UTC", "Asia/Shanghai", "Asia/Tokyo", "Europe/London", "Europe/Berlin", "America/New_York", "America/Los_Angeles"];
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * 某个时刻在指定时区的 UTC 偏移 (毫秒)
+ */
+export const zoneOffset = (instant: number, zone: string): number => {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(zone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map((p) => [p.type, p.value]));
+  const wall = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  // formatToParts 不含毫秒，比较前先去掉
+  return wall - (instant - (((instant % 1000) + 1000) % 1000));
+};
+
+/**
+ * 指定时区的墙上时间 -> 时刻 (UTC 毫秒)；夏令时切换附近再校正一次偏移
+ */
+export const wallTimeToInstant = (wall: number, zone: string): number => {
+  const guess = wall - zoneOffset(wall, zone);
+  const offset = zoneOffset(guess, zone);
+  return wall - offset;
+};
+
+/**
+ * 时刻 (UTC 毫秒) -> 指定时区的墙上时间
+ */
+export const instantToWallTime = (instant: number, zone: string): number =>
+  checkRange(instant) + zoneOffset(instant, zone);
+
+/**
+ * UTC 偏移的显示文本，例如 "UTC+08:00"
+ */
+export const formatOffset = (offset: number): string => {
+  const minutes = Math.round(Math.abs(offset) / 60_000);
+  return `UTC${offset < 0 ? "−" : "+"}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+// --- Unix 时间戳 ---
+
+/**
+ * 解析 Unix 时间戳 (秒或毫秒，秒可以带小数) 为时刻毫秒数
+ */
+export const parseEpoch = (text: string, unit: "s" | "ms"): number => {
+  const value = Decimal.parse(text);
+  const ms = unit === "s" ? value.mul(Decimal.fromNumber(1000)) : value;
+  return checkRange(Math.round(ms.toNumber()));
+};
+
+/**
+ * ISO 8601 (UTC) 表示
+ */
+export const formatIso = (instant: number): string => new Date(checkRange(instant)).toISOString();
@@ -0,0 +1,259 @@
+// 任意精度十进制数：以 BigInt 保存去掉小数点后的整数，再记录小数位数。
+// 加、减、乘都是精确的；除法按上下文给定的小数位数和舍入方式截断。
+
+// --- 类型定义 ---
+
+/**
+ * 舍入方式
+ */
+export type RoundingMode =
+  | "half-up" // 四舍五入
+  | "half-even" // 银行家舍入 (四舍六入五成双)
+  | "down" // 向零截断
+  | "up" // 远离零进位
+  | "floor" // 向负无穷
+  | "ceiling"; // 向正无穷
+
+/**
+ * 运算上下文：除法等无法精确表示的结果保留的小数位数与舍入方式
+ */
+export interface DecimalContext {
+  scale: number;
+  rounding: RoundingMode;
+}
+
+export const roundingModes: { value: RoundingMode; label: string }[] = [
+  { value: "half-up", label: "四舍五入" },
+  { value: "half-even", label: "银行家舍入" },
+  { value: "down", label: "截断" },
+  { value: "up", label: "进位" },
+  { value: "floor", label: "向下取整" },
+  { value: "ceiling", label: "向上取整" },
+];
+
+// --- 帮助函数 ---
+
+const pow10 = (n: number): bigint => 10n ** BigInt(n);
+
+// 科学计数法允许的最大指数；更大的指数会让 BigInt 长到卡死页面
+const maxExponent = 10_000;
+
+const abs = (n: bigint): bigint => (n < 0n ? -n : n);
+
+/**
+ * 整数平方根 (向下取整)，牛顿迭代
+ */
+const isqrt = (n: bigint): bigint => {
+  if (n < 2n) return n;
+  let x = 1n << BigInt(Math.ceil(n.toString(2).length / 2));
+  let y = (x + n / x) >> 1n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) >> 1n;
+  }
+  return x;
+};
+
+/**
+ * 整数除法并按指定方式舍入
+ */
+const roundDiv = (n: bigint, d: bigint, mode: RoundingMode): bigint => {
+  const q = n / d;
+  const r = n % d;
+  if (r === 0n) return q;
+
+  const sign = n < 0n !== d < 0n ? -1n : 1n;
+  const twice = abs(r) * 2n;
+  const divisor = abs(d);
+
+  switch (mode) {
+    case "down":
+      return q;
+    case "up":
+      return q + sign;
+    case "floor":
+      return sign < 0n ? q - 1n : q;
+    case "ceiling":
+      return sign > 0n ? q + 1n : q;
+    case "half-up":
+      return twice >= divisor ? q + sign : q;
+    case "half-even":
+      if (twice > divisor) return q + sign;
+      if (twice < divisor) return q;
+      return q % 2n === 0n ? q : q + sign;
+  }
+};
+
+// --- Decimal ---
+
+export class Decimal {
+  readonly int: bigint; // 去掉小数点后的整数
+  readonly scale: number; // 小数位数
+
+  constructor(int: bigint, scale = 0) {
+    // 去掉末尾多余的 0，保证同一个数只有一种表示
+    while (scale > 0 && int % 10n === 0n) {
+      int /= 10n;
+      scale--;
+    }
+    this.int = int;
+    this.scale = scale;
+  }
+
+  static readonly ZERO = new Decimal(0n);
+  static readonly ONE = new Decimal(1n);
+
+  /**
+   * 解析数字字符串，支持 "12.5"、".5"、"5."、"-3" 与科学计数法 "1.5e-7"
+   */
+  static parse(input: string): Decimal {
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(input.trim());
+    if (!match || (match[2] === "" && !match[3])) {
+      throw new RangeError(`无效的数字 "${input}"`);
+    }
+    const [, sign, whole, fraction = "", exponent = "0"] = match;
+    if (Math.abs(Number(exponent)) > maxExponent) {
+      throw new RangeError("结果超出范围");
+    }
+    let int = BigInt((whole || "0") + fraction);
+    let scale = fraction.length - Number(exponent);
+    if (scale < 0) {
+      int *= pow10(-scale);
+      scale = 0;
+    }
+    return new Decimal(sign === "-" ? -int : int, scale);
+  }
+
+  /**
+   * 从 JS number 转换 (仅用于超越函数等本身就只有双精度的结果)
+   */
+  static fromNumber(n: number): Decimal {
+    if (!Number.isFinite(n)) {
+      throw new RangeError("结果超出范围");
+    }
+    // 双精度只有约 15 位可靠的有效数字，多余的尾差 (如 0.30000000000000004) 一并去掉
+    return Decimal.parse(n.toPrecision(15));
+  }
+
+  /**
+   * 将两个数对齐到相同的小数位数
+   */
+  private align(other: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(this.scale, other.scale);
+    return [
+      this.int * pow10(scale - this.scale),
+      other.int * pow10(scale - other.scale),
+      scale,
+    ];
+  }
+
+  add(other: Decimal): Decimal {
+    const [a, b, scale] = this.align(other);
+    return new Decimal(a + b, scale);
+  }
+
+  sub(other: Decimal): Decimal {
+    const [a, b, scale] = this.align(other);
+    return new Decimal(a - b, scale);
+  }
+
+  mul(other: Decimal): Decimal {
+    return new Decimal(this.int * other.int, this.scale + other.scale);
+  }
+
+  /**
+   * 除法，结果保留 ctx.scale 位小数；调用方需自行检查除数为 0
+   */
+  div(other: Decimal, ctx: DecimalContext): Decimal {
+    const exponent = ctx.scale + other.scale - this.scale;
+    const n = exponent >= 0 ? this.int * pow10(exponent) : this.int;
+    const d = exponent >= 0 ? other.int : other.int * pow10(-exponent);
+    return new Decimal(roundDiv(n, d, ctx.rounding), ctx.scale);
+  }
+
+  /**
+   * 整数次幂，结果精确；负指数时按上下文做一次除法
+   */
+  pow(exponent: bigint, ctx: DecimalContext): Decimal {
+    let base = new Decimal(this.int, this.scale);
+    let result = Decimal.ONE;
+    let e = abs(exponent);
+    while (e > 0n) {
+      if (e & 1n) result = result.mul(base);
+      base = base.mul(base);
+      e >>= 1n;
+    }
+    return exponent < 0n ? Decimal.ONE.div(result, ctx) : result;
+  }
+
+  /**
+   * 平方根，保留 ctx.scale 位小数；调用方需自行检查负数
+   */
+  sqrt(ctx: DecimalContext): Decimal {
+    // 多算一位再舍入，使舍入方式生效
+    const scale = Math.max(ctx.scale, Math.ceil(this.scale / 2)) + 1;
+    const root = isqrt(this.int * pow10(2 * scale - this.scale));
+    return new Decimal(root, scale).round(ctx.scale, ctx.rounding);
+  }
+
+  neg(): Decimal {
+    return new Decimal(-this.int, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.int < 0n ? this.neg() : this;
+  }
+
+  isZero(): boolean {
+    return this.int === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.int < 0n;
+  }
+
+  isInteger(): boolean {
+    return this.scale === 0;
+  }
+
+  /**
+   * 比较大小，返回 -1 / 0 / 1
+   */
+  cmp(other: Decimal): number {
+    const [a, b] = this.align(other);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  /**
+   * 舍入到指定的小数位数
+   */
+  round(places: number, mode: RoundingMode): Decimal {
+    if (this.scale <= places) return this;
+    return new Decimal(roundDiv(this.int, pow10(this.scale - places), mode), places);
+  }
+
+  /**
+   * 舍入并补齐到固定的小数位数 (例如金额 "3.10")
+   */
+  toFixed(places: number, mode: RoundingMode): string {
+    const rounded = this.round(places, mode);
+    const text = rounded.toString();
+    if (places === 0) return text;
+    const [whole, fraction = ""] = text.split(".");
+    return `${whole}.${fraction.padEnd(places, "0")}`;
+  }
+
+  /**
+   * 普通十进制表示，不使用科学计数法
+   */
+  toString(): string {
+    const digits = abs(this.int).toString().padStart(this.scale + 1, "0");
+    const sign = this.int < 0n ? "-" : "";
+    if (this.scale === 0) return sign + digits;
+    return `${sign}${digits.slice(0, -this.scale)}.${digits.slice(-this.scale)}`;
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+}
@@ -0,0 +1,570 @@
+// 计算器表达式引擎：分词 (tokenize) -> 语法分析 (parse) -> 求值 (evaluate)
+// 与 UI 无关，按钮处理函数只负责拼接表达式字符串，再交给这里计算。
+// 所有运算都基于 Decimal，避免 0.1 + 0.2 这类二进制浮点误差。
+
+import { Decimal, type DecimalContext } from "./calcDecimal.ts";
+
+// --- 类型定义 ---
+
+export type BinaryOperator = "+" | "−" | "×" | "÷" | "^" | "ʸ√" | BitwiseOperator;
+
+/**
+ * 程序员模式使用的整数运算符
+ */
+export type BitwiseOperator = "AND" | "OR" | "XOR" | "<<" | ">>" | "MOD";
+
+export type UnaryOperator = "−" | "NOT";
+
+export type PostfixOperator = "!" | "%" | "²";
+
+export type FunctionName =
+  | "sin"
+  | "cos"
+  | "tan"
+  | "asin"
+  | "acos"
+  | "atan"
+  | "ln"
+  | "log"
+  | "exp"
+  | "√";
+
+export type ConstantName = "π" | "e";
+
+export type AngleUnit = "deg" | "rad";
+
+/**
+ * 命名变量：变量名 -> 数值字符串
+ */
+export type Variables = Record<string, string>;
+
+/**
+ * 求值上下文：在十进制运算上下文之外，再加上三角函数使用的角度单位与可用的变量
+ */
+export interface EvalContext extends DecimalContext {
+  angleUnit: AngleUnit;
+  variables?: Variables;
+}
+
+/**
+ * 词法单元
+ */
+export type Token =
+  | { type: "number"; value: string; pos: number }
+  | { type: "operator"; value: BinaryOperator | "NOT"; pos: number }
+  | { type: "postfix"; value: PostfixOperator; pos: number }
+  | { type: "function"; value: FunctionName; pos: number }
+  | { type: "constant"; value: ConstantName; pos: number }
+  | { type: "variable"; value: string; pos: number }
+  | { type: "paren"; value: "(" | ")"; pos: number };
+
+/**
+ * 语法树节点
+ */
+export type ExprNode =
+  | { type: "number"; value: string }
+  | { type: "constant"; name: ConstantName }
+  | { type: "variable"; name: string }
+  | { type: "unary"; op: UnaryOperator; operand: ExprNode }
+  | { type: "postfix"; op: PostfixOperator; operand: ExprNode }
+  | { type: "call"; name: FunctionName; arg: ExprNode }
+  | { type: "binary"; op: BinaryOperator; left: ExprNode; right: ExprNode };
+
+/**
+ * 表达式错误，pos 为出错位置 (字符下标)，便于界面提示
+ */
+export class ExpressionError extends Error {
+  pos: number;
+
+  constructor(message: string, pos: number) {
+    super(message);
+    this.name = "ExpressionError";
+    this.pos = pos;
+  }
+}
+
+export const zeroDivisionError = "不能除以 0";
+
+// --- 分词 ---
+
+/**
+ * 同时接受键盘符号 (- * /) 与界面符号 (− × ÷)
+ */
+const operatorAliases: Record<string, BinaryOperator> = {
+  "+": "+",
+  "-": "−",
+  "−": "−",
+  "*": "×",
+  "×": "×",
+  "/": "÷",
+  "÷": "÷",
+  "^": "^",
+};
+
+const postfixOperators: Record<string, PostfixOperator> = {
+  "!": "!",
+  "%": "%",
+  "²": "²",
+};
+
+/**
+ * 字母组成的函数名与常量名，"sin⁻¹" 这类写法在分词时换成 "asin"
+ */
+const functionNames: FunctionName[] = ["sin", "cos", "tan", "asin", "acos", "atan", "ln", "log", "exp"];
+
+const wordOperators: Record<string, BitwiseOperator | "NOT"> = {
+  and: "AND",
+  or: "OR",
+  xor: "XOR",
+  not: "NOT",
+  mod: "MOD",
+};
+
+const constantAliases: Record<string, ConstantName> = {
+  pi: "π",
+  π: "π",
+  e: "e",
+};
+
+/**
+ * 判断是否为合法的变量名：字母或下划线开头，且不与函数、运算符、常量重名 (不区分大小写)
+ */
+export const isValidVariableName = (name: string): boolean => {
+  const lower = name.toLowerCase();
+  return (
+    /^[a-z_][a-z0-9_]*$/i.test(name) &&
+    !functionNames.includes(lower as FunctionName) &&
+    !(lower in wordOperators) &&
+    !(lower in constantAliases)
+  );
+};
+
+/**
+ * 解析 "rate = 0.13" 形式的变量赋值；不含等号时返回 null，变量名不合法时抛出 ExpressionError
+ */
+export const parseAssignment = (input: string): { name: string; expression: string } | null => {
+  const match = /^\s*([^=]*?)\s*=\s*(.*)$/.exec(input);
+  if (!match) return null;
+  const [, name, expression] = match;
+  if (!isValidVariableName(name)) {
+    throw new ExpressionError(name ? `无效的变量名 "${name}"` : "缺少变量名", 0);
+  }
+  return { name, expression };
+};
+
+/**
+ * 将表达式字符串拆分为词法单元
+ */
+export const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[\d.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(input.slice(i));
+      if (!match) {
+        throw new ExpressionError(`无效的数字 "${ch}"`, i);
+      }
+      tokens.push({ type: "number", value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (input.startsWith("ʸ√", i)) {
+      tokens.push({ type: "operator", value: "ʸ√", pos: i });
+      i += 2;
+      continue;
+    }
+
+    if (ch === "√") {
+      tokens.push({ type: "function", value: "√", pos: i });
+      i++;
+      continue;
+    }
+
+    if (input.startsWith("<<", i) || input.startsWith(">>", i)) {
+      tokens.push({ type: "operator", value: input.startsWith("<<", i) ? "<<" : ">>", pos: i });
+      i += 2;
+      continue;
+    }
+
+    if (/[a-z_π]/i.test(ch)) {
+      const word = /^([a-z_][a-z0-9_]*|π)(⁻¹)?/i.exec(input.slice(i))!;
+      const name = (word[2] ? "a" + word[1] : word[1]).toLowerCase();
+      if (!word[2] && name in wordOperators) {
+        tokens.push({ type: "operator", value: wordOperators[name], pos: i });
+      } else if (functionNames.includes(name as FunctionName)) {
+        tokens.push({ type: "function", value: name as FunctionName, pos: i });
+      } else if (!word[2] && name in constantAliases) {
+        tokens.push({ type: "constant", value: constantAliases[name], pos: i });
+      } else if (!word[2]) {
+        // 其余的名称都视为变量，求值时再检查是否已定义
+        tokens.push({ type: "variable", value: word[1], pos: i });
+      } else {
+        throw new ExpressionError(`未知的函数或常量 "${word[0]}"`, i);
+      }
+      i += word[0].length;
+      continue;
+    }
+
+    if (ch in operatorAliases) {
+      tokens.push({ type: "operator", value: operatorAliases[ch], pos: i });
+      i++;
+      continue;
+    }
+
+    if (ch in postfixOperators) {
+      tokens.push({ type: "postfix", value: postfixOperators[ch], pos: i });
+      i++;
+      continue;
+    }
+
+    if (ch === "(" || ch === ")") {
+      tokens.push({ type: "paren", value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`无法识别的字符 "${ch}"`, i);
+  }
+
+  return tokens;
+};
+
+// --- 语法分析 ---
+
+/**
+ * 递归下降解析，优先级从低到高 (位运算的优先级与 C 语言一致)：
+ *   expression := xor ("OR" xor)*
+ *   xor        := and ("XOR" and)*
+ *   and        := shift ("AND" shift)*
+ *   shift      := additive (("<<" | ">>") additive)*
+ *   additive   := term (("+" | "−") term)*
+ *   term       := unary (("×" | "÷" | "MOD") unary)*
+ *   unary      := ("+" | "−" | "NOT") unary | power
+ *   power      := postfix (("^" | "ʸ√") unary)?        右结合，-2^2 = -4
+ *   postfix    := primary ("!" | "%" | "²")*
+ *   primary    := number | constant | variable | function "(" expression ")" | "(" expression ")"
+ */
+export const parse = (tokens: Token[], inputLength = 0): ExprNode => {
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const endPos = (): number =>
+    tokens.length > 0 ? tokens[tokens.length - 1].pos + 1 : inputLength;
+
+  /**
+   * 生成一层左结合的二元运算解析函数
+   */
+  const leftAssoc =
+    (ops: BinaryOperator[], next: () => ExprNode) =>
+    (): ExprNode => {
+      let left = next();
+      let token = peek();
+      while (token?.type === "operator" && token.value !== "NOT" && ops.includes(token.value)) {
+        index++;
+        left = { type: "binary", op: token.value, left, right: next() };
+        token = peek();
+      }
+      return left;
+    };
+
+  const parseUnary = (): ExprNode => {
+    const token = peek();
+    if (
+      token?.type === "operator" &&
+      (token.value === "+" || token.value === "−" || token.value === "NOT")
+    ) {
+      index++;
+      const operand = parseUnary();
+      return token.value === "+" ? operand : { type: "unary", op: token.value, operand };
+    }
+    return parsePower();
+  };
+
+  const parseTerm = leftAssoc(["×", "÷", "MOD"], parseUnary);
+  const parseAdditive = leftAssoc(["+", "−"], parseTerm);
+  const parseShift = leftAssoc(["<<", ">>"], parseAdditive);
+  const parseAnd = leftAssoc(["AND"], parseShift);
+  const parseXor = leftAssoc(["XOR"], parseAnd);
+  const parseExpression = leftAssoc(["OR"], parseXor);
+
+  const parsePower = (): ExprNode => {
+    const base = parsePostfix();
+    const token = peek();
+    if (token?.type === "operator" && (token.value === "^" || token.value === "ʸ√")) {
+      index++;
+      return { type: "binary", op: token.value, left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePostfix = (): ExprNode => {
+    let operand = parsePrimary();
+    let token = peek();
+    while (token?.type === "postfix") {
+      index++;
+      operand = { type: "postfix", op: token.value, operand };
+      token = peek();
+    }
+    return operand;
+  };
+
+  /**
+   * 解析括号内的表达式，起始的 "(" 已被消费
+   */
+  const parseGroup = (): ExprNode => {
+    const inner = parseExpression();
+    const closing = peek();
+    if (!closing || closing.type !== "paren" || closing.value !== ")") {
+      throw new ExpressionError("缺少右括号 \")\"", closing ? closing.pos : endPos());
+    }
+    index++;
+    return inner;
+  };
+
+  const parsePrimary = (): ExprNode => {
+    const token = peek();
+
+    if (!token) {
+      throw new ExpressionError("表达式不完整", endPos());
+    }
+
+    if (token.type === "number") {
+      index++;
+      return { type: "number", value: token.value };
+    }
+
+    if (token.type === "constant") {
+      index++;
+      return { type: "constant", name: token.value };
+    }
+
+    if (token.type === "variable") {
+      index++;
+      return { type: "variable", name: token.value };
+    }
+
+    if (token.type === "function") {
+      index++;
+      const open = peek();
+      if (!open || open.type !== "paren" || open.value !== "(") {
+        throw new ExpressionError(`函数 "${token.value}" 后缺少左括号 "("`, open ? open.pos : endPos());
+      }
+      index++;
+      return { type: "call", name: token.value, arg: parseGroup() };
+    }
+
+    if (token.type === "paren" && token.value === "(") {
+      index++;
+      return parseGroup();
+    }
+
+    if (token.type === "paren") {
+      throw new ExpressionError("多余的右括号 \")\"", token.pos);
+    }
+
+    throw new ExpressionError(`运算符 "${token.value}" 缺少左侧数字`, token.pos);
+  };
+
+  if (tokens.length === 0) {
+    throw new ExpressionError("表达式为空", 0);
+  }
+
+  const tree = parseExpression();
+  const rest = peek();
+  if (rest) {
+    throw new ExpressionError(
+      rest.type === "paren" && rest.value === ")"
+        ? "多余的右括号 \")\""
+        : `"${rest.value}" 前缺少运算符`,
+      rest.pos
+    );
+  }
+  return tree;
+};
+
+// --- 求值 ---
+
+// 常量保留 32 位小数，与除法的默认精度一致
+const constants: Record<ConstantName, Decimal> = {
+  π: Decimal.parse("3.14159265358979323846264338327950"),
+  e: Decimal.parse("2.71828182845904523536028747135266"),
+};
+
+const hundred = Decimal.parse("100");
+
+const programmerOnlyError = (op: string): string => `"${op}" 仅在程序员模式下可用`;
+
+/**
+ * 查找变量的值，未定义时抛出 ExpressionError
+ */
+export const lookupVariable = (name: string, variables: Variables = {}): string => {
+  if (!Object.hasOwn(variables, name)) {
+    throw new ExpressionError(`未定义的变量 "${name}"`, 0);
+  }
+  return variables[name];
+};
+
+/**
+ * 阶乘的上限，避免结果位数过多卡住页面
+ */
+const maxFactorial = 1000n;
+
+/**
+ * 整数次幂精确计算的指数上限，超出后改用双精度
+ */
+const maxExactExponent = 1000n;
+
+/**
+ * 将双精度结果转换为 Decimal，NaN 与无穷大转为表达式错误
+ */
+const fromFloat = (n: number): Decimal => {
+  if (Number.isNaN(n)) throw new ExpressionError("无效的运算", 0);
+  if (!Number.isFinite(n)) throw new ExpressionError("结果超出范围", 0);
+  return Decimal.fromNumber(n);
+};
+
+/**
+ * 三角函数结果额外舍入到 15 位小数，使 sin(180°) 等于 0 而不是 1.22e-16
+ */
+const fromTrig = (n: number): Decimal => fromFloat(n).round(15, "half-even");
+
+const toRadians = (x: Decimal, ctx: EvalContext): number =>
+  ctx.angleUnit === "deg" ? (x.toNumber() * Math.PI) / 180 : x.toNumber();
+
+const fromRadians = (rad: number, ctx: EvalContext): number =>
+  ctx.angleUnit === "deg" ? (rad * 180) / Math.PI : rad;
+
+const factorial = (x: Decimal): Decimal => {
+  if (!x.isInteger() || x.isNegative() || x.int > maxFactorial) {
+    throw new ExpressionError(`阶乘仅支持 0 到 ${maxFactorial} 的整数`, 0);
+  }
+  let result = 1n;
+  for (let i = 2n; i <= x.int; i++) result *= i;
+  return new Decimal(result);
+};
+
+const power = (base: Decimal, exponent: Decimal, ctx: EvalContext): Decimal => {
+  if (exponent.isInteger() && exponent.abs().int <= maxExactExponent) {
+    if (base.isZero() && exponent.isNegative()) {
+      throw new ExpressionError(zeroDivisionError, 0);
+    }
+    return base.pow(exponent.int, ctx);
+  }
+  return fromFloat(Math.pow(base.toNumber(), exponent.toNumber()));
+};
+
+/**
+ * x 的 y 次方根；y 为奇数时允许负数
+ */
+const root = (x: Decimal, y: Decimal): Decimal => {
+  if (y.isZero()) throw new ExpressionError("不能开 0 次方根", 0);
+  const oddRoot = y.isInteger() && y.int % 2n !== 0n;
+  if (x.isNegative() && !oddRoot) {
+    throw new ExpressionError("负数不能开偶次方根", 0);
+  }
+  const magnitude = fromFloat(Math.pow(x.abs().toNumber(), 1 / y.toNumber()));
+  return x.isNegative() ? magnitude.neg() : magnitude;
+};
+
+const callFunction = (name: FunctionName, x: Decimal, ctx: EvalContext): Decimal => {
+  switch (name) {
+    case "sin":
+      return fromTrig(Math.sin(toRadians(x, ctx)));
+    case "cos":
+      return fromTrig(Math.cos(toRadians(x, ctx)));
+    case "tan": {
+      // 角度制下可以精确判断 90° 的奇数倍
+      if (ctx.angleUnit === "deg" && ((x.toNumber() % 180) + 180) % 180 === 90) {
+        throw new ExpressionError("tan 在该角度无定义", 0);
+      }
+      return fromTrig(Math.tan(toRadians(x, ctx)));
+    }
+    case "asin":
+    case "acos":
+      if (x.abs().cmp(Decimal.ONE) > 0) {
+        throw new ExpressionError(`${name === "asin" ? "sin⁻¹" : "cos⁻¹"} 的参数必须在 -1 到 1 之间`, 0);
+      }
+      return fromTrig(fromRadians((name === "asin" ? Math.asin : Math.acos)(x.toNumber()), ctx));
+    case "atan":
+      return fromTrig(fromRadians(Math.atan(x.toNumber()), ctx));
+    case "ln":
+    case "log":
+      if (x.isNegative() || x.isZero()) {
+        throw new ExpressionError("对数的真数必须大于 0", 0);
+      }
+      return fromFloat(name === "ln" ? Math.log(x.toNumber()) : Math.log10(x.toNumber()));
+    case "exp":
+      return fromFloat(Math.exp(x.toNumber()));
+    case "√":
+      if (x.isNegative()) throw new ExpressionError("负数不能开平方根", 0);
+      return x.sqrt(ctx);
+  }
+};
+
+const applyPostfix = (op: PostfixOperator, x: Decimal, ctx: EvalContext): Decimal => {
+  switch (op) {
+    case "!":
+      return factorial(x);
+    case "%":
+      return x.div(hundred, ctx);
+    case "²":
+      return x.mul(x);
+  }
+};
+
+/**
+ * 对语法树求值
+ */
+export const evaluate = (node: ExprNode, ctx: EvalContext): Decimal => {
+  switch (node.type) {
+    case "number":
+      return Decimal.parse(node.value);
+    case "constant":
+      return constants[node.name];
+    case "variable":
+      return Decimal.parse(lookupVariable(node.name, ctx.variables));
+    case "unary":
+      if (node.op === "NOT") throw new ExpressionError(programmerOnlyError("NOT"), 0);
+      return evaluate(node.operand, ctx).neg();
+    case "postfix":
+      return applyPostfix(node.op, evaluate(node.operand, ctx), ctx);
+    case "call":
+      return callFunction(node.name, evaluate(node.arg, ctx), ctx);
+    case "binary": {
+      const a = evaluate(node.left, ctx);
+      const b = evaluate(node.right, ctx);
+      switch (node.op) {
+        case "+":
+          return a.add(b);
+        case "−":
+          return a.sub(b);
+        case "×":
+          return a.mul(b);
+        case "÷":
+          if (b.isZero()) throw new ExpressionError(zeroDivisionError, 0);
+          return a.div(b, ctx);
+        case "^":
+          return power(a, b, ctx);
+        case "ʸ√":
+          return root(a, b);
+        default:
+          throw new ExpressionError(programmerOnlyError(node.op), 0);
+      }
+    }
+  }
+};
+
+/**
+ * 一步完成分词、解析与求值
+ */
+export const evaluateExpression = (input: string, ctx: EvalContext): Decimal =>
+  evaluate(parse(tokenize(input), input.length), ctx);
@@ -0,0 +1,127 @@
+// 计算器历史记录：结构化条目、localStorage 持久化、筛选与导出 (CSV / JSON)
+
+import { isValidVariableName } from "./calcExpression.ts";
+import { createId, csvCell } from "./utils.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 一条历史记录
+ */
+export interface HistoryEntry {
+  id: string;
+  mode: string; // 产生该记录的计算器模式
+  tokens: string[]; // 表达式片段，可重新载入计算器；非表达式类记录为空
+  operands: string[]; // 表达式中的数字与变量
+  operators: string[]; // 表达式中的运算符与函数
+  result: string; // 计算结果 (内部精确值)；日期等非数值结果为 ""
+  text: string; // 显示用的整行文本，例如 "2 + 3 × 4 = 14"
+  timestamp: number;
+  pinned: boolean;
+  note: string;
+}
+
+/**
+ * 历史记录筛选条件
+ */
+export interface HistoryFilter {
+  query: string; // 匹配文本与备注
+  mode: string; // "" 表示全部模式
+  pinnedOnly: boolean;
+}
+
+const storageKey = "calculatorHistory";
+
+/**
+ * 未置顶记录的保留上限，避免 localStorage 无限增长
+ */
+const maxUnpinned = 500;
+
+// --- 帮助函数 ---
+
+const isOperand = (token: string): boolean => /^-?[\d.]/.test(token) || isValidVariableName(token);
+
+/**
+ * 由表达式片段与结果创建一条记录
+ */
+export const createHistoryEntry = (
+  mode: string,
+  tokens: string[],
+  result: string,
+  text: string
+): HistoryEntry => ({
+  id: createId(),
+  mode,
+  tokens,
+  operands: tokens.filter(isOperand),
+  operators: tokens.filter((t) => !isOperand(t) && t !== "(" && t !== ")"),
+  result,
+  text,
+  timestamp: Date.now(),
+  pinned: false,
+  note: "",
+});
+
+/**
+ * 从 localStorage 读取历史记录
+ */
+export const loadHistory = (): HistoryEntry[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey) ?? "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveHistory = (entries: HistoryEntry[]): void => {
+  window.localStorage.setItem(storageKey, JSON.stringify(entries));
+};
+
+/**
+ * 在头部加入新记录，并按上限裁掉最旧的未置顶记录
+ */
+export const addHistoryEntry = (entries: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] => {
+  const next = [entry, ...entries];
+  let unpinned = 0;
+  return next.filter((e) => e.pinned || ++unpinned <= maxUnpinned);
+};
+
+/**
+ * 筛选并排序：置顶在前，其余按时间倒序
+ */
+export const filterHistory = (entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] => {
+  const query = filter.query.trim().toLowerCase();
+  return entries
+    .filter(
+      (e) =>
+        (!filter.mode || e.mode === filter.mode) &&
+        (!filter.pinnedOnly || e.pinned) &&
+        (!query || e.text.toLowerCase().includes(query) || e.note.toLowerCase().includes(query))
+    )
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp - a.timestamp);
+};
+
+// --- 导出 ---
+
+/**
+ * 导出为 CSV；开头加 BOM，Excel 打开中文不乱码
+ */
+export const historyToCsv = (entries: HistoryEntry[]): string => {
+  const header = ["时间", "模式", "表达式", "操作数", "运算符", "结果", "置顶", "备注"];
+  const rows = entries.map((e) => [
+    new Date(e.timestamp).toISOString(),
+    e.mode,
+    e.tokens.join(" "),
+    e.operands.join(" "),
+    e.operators.join(" "),
+    e.result,
+    e.pinned ? "是" : "否",
+    e.note,
+  ]);
+  return "\uFEFF" + [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+};
+
+export const historyToJson = (entries: HistoryEntry[]): string =>
+  JSON.stringify(entries, null, 2);
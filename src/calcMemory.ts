@@ -0,0 +1,36 @@
+// 计算器记忆：M 寄存器 (MC / MR / M+ / M−) 与命名变量，持久化到 localStorage
+
+import type { Variables } from "./calcExpression.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 记忆状态
+ */
+export interface MemoryState {
+  register: string | null; // M 寄存器的值，null 表示为空
+  variables: Variables; // 用户定义的变量，例如 { rate: "0.13" }
+}
+
+const storageKey = "calculatorMemory";
+
+export const emptyMemory: MemoryState = { register: null, variables: {} };
+
+// --- 帮助函数 ---
+
+/**
+ * 从 localStorage 读取记忆与变量
+ */
+export const loadMemory = (): MemoryState => {
+  if (typeof window === "undefined") return emptyMemory;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey) ?? "null");
+    return { ...emptyMemory, ...saved };
+  } catch {
+    return emptyMemory;
+  }
+};
+
+export const saveMemory = (memory: MemoryState): void => {
+  window.localStorage.setItem(storageKey, JSON.stringify(memory));
+};
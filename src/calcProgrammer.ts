@@ -0,0 +1,166 @@
+// 程序员模式：定长整数 (8/16/32/64 位，有符号补码或无符号) 的进制转换与位运算。
+// 全程使用 BigInt，64 位数值不会丢失精度；表达式的解析复用 calcExpression。
+
+import {
+  ExpressionError,
+  lookupVariable,
+  parse,
+  tokenize,
+  zeroDivisionError,
+  type ExprNode,
+  type Variables,
+} from "./calcExpression.ts";
+
+// --- 类型定义 ---
+
+export type Radix = 2 | 8 | 10 | 16;
+
+export type WordSize = 8 | 16 | 32 | 64;
+
+/**
+ * 整数格式：字长与是否有符号
+ */
+export interface IntegerFormat {
+  wordSize: WordSize;
+  signed: boolean;
+}
+
+export const radixes: { value: Radix; label: string }[] = [
+  { value: 16, label: "HEX" },
+  { value: 10, label: "DEC" },
+  { value: 8, label: "OCT" },
+  { value: 2, label: "BIN" },
+];
+
+export const wordSizes: WordSize[] = [8, 16, 32, 64];
+
+// --- 帮助函数 ---
+
+/**
+ * 按字长截断：有符号时解释为补码，无符号时取低位
+ */
+export const wrap = (value: bigint, fmt: IntegerFormat): bigint =>
+  fmt.signed ? BigInt.asIntN(fmt.wordSize, value) : BigInt.asUintN(fmt.wordSize, value);
+
+/**
+ * 格式化整数：十进制带符号显示，其余进制显示补码位模式
+ */
+export const formatInteger = (value: bigint, radix: Radix, fmt: IntegerFormat): string =>
+  radix === 10
+    ? wrap(value, fmt).toString()
+    : BigInt.asUintN(fmt.wordSize, value).toString(radix).toUpperCase();
+
+/**
+ * 分组显示：十六进制与二进制每 4 位、八进制每 3 位、十进制每 3 位一组
+ */
+export const groupDigits = (text: string, radix: Radix): string => {
+  const size = radix === 16 || radix === 2 ? 4 : 3;
+  const sign = text.startsWith("-") ? "-" : "";
+  const digits = sign ? text.slice(1) : text;
+  const groups: string[] = [];
+  for (let end = digits.length; end > 0; end -= size) {
+    groups.unshift(digits.slice(Math.max(0, end - size), end));
+  }
+  return sign + groups.join(" ");
+};
+
+const radixPrefix: Record<Radix, string> = { 16: "0x", 10: "", 8: "0o", 2: "0b" };
+
+/**
+ * 带进制前缀的表示 (例如 0xFF)，用于历史记录
+ */
+export const formatWithPrefix = (value: bigint, radix: Radix, fmt: IntegerFormat): string => {
+  const text = formatInteger(value, radix, fmt);
+  return text.startsWith("-") ? `-${radixPrefix[radix]}${text.slice(1)}` : radixPrefix[radix] + text;
+};
+
+/**
+ * 按进制解析输入的数字；超出当前字长时返回 null
+ */
+export const parseInteger = (text: string, radix: Radix, fmt: IntegerFormat): bigint | null => {
+  if (radix === 10) {
+    if (!/^-?\d+$/.test(text)) return null;
+    const value = BigInt(text);
+    return wrap(value, fmt) === value ? value : null;
+  }
+  if (!/^[0-9A-F]+$/i.test(text)) return null;
+  const pattern = BigInt(radixPrefix[radix] + text);
+  // 其余进制输入的是位模式，只要不超过字长即可
+  return pattern >> BigInt(fmt.wordSize) === 0n ? wrap(pattern, fmt) : null;
+};
+
+/**
+ * 判断某个数字键在当前进制下是否可用
+ */
+export const isDigitAllowed = (digit: string, radix: Radix): boolean =>
+  parseInt(digit, 16) < radix;
+
+// --- 求值 ---
+
+const unsupported = (what: string): ExpressionError =>
+  new ExpressionError(`程序员模式不支持 ${what}`, 0);
+
+/**
+ * 按整数语义对语法树求值，每一步都截断到当前字长
+ */
+export const evaluateInteger = (node: ExprNode, fmt: IntegerFormat, variables: Variables = {}): bigint => {
+  switch (node.type) {
+    case "number":
+      if (!/^\d+$/.test(node.value)) throw unsupported("小数");
+      return wrap(BigInt(node.value), fmt);
+    case "variable": {
+      const value = lookupVariable(node.name, variables);
+      if (!/^-?\d+$/.test(value)) throw unsupported(`小数变量 "${node.name}"`);
+      return wrap(BigInt(value), fmt);
+    }
+    case "unary": {
+      const x = evaluateInteger(node.operand, fmt, variables);
+      return wrap(node.op === "NOT" ? ~x : -x, fmt);
+    }
+    case "constant":
+      throw unsupported(`常量 ${node.name}`);
+    case "call":
+      throw unsupported(`函数 ${node.name}`);
+    case "postfix":
+      throw unsupported(`"${node.op}"`);
+    case "binary": {
+      const a = evaluateInteger(node.left, fmt, variables);
+      const b = evaluateInteger(node.right, fmt, variables);
+      switch (node.op) {
+        case "+":
+          return wrap(a + b, fmt);
+        case "−":
+          return wrap(a - b, fmt);
+        case "×":
+          return wrap(a * b, fmt);
+        case "÷":
+        case "MOD":
+          if (b === 0n) throw new ExpressionError(zeroDivisionError, 0);
+          // BigInt 的除法向零截断，与 C 语言一致
+          return wrap(node.op === "÷" ? a / b : a % b, fmt);
+        case "AND":
+          return wrap(a & b, fmt);
+        case "OR":
+          return wrap(a | b, fmt);
+        case "XOR":
+          return wrap(a ^ b, fmt);
+        case "<<":
+        case ">>": {
+          if (b < 0n) throw new ExpressionError("移位位数不能为负数", 0);
+          // 移位超过字长时结果已确定，限制位数避免生成巨大的中间值
+          const shift = b > BigInt(fmt.wordSize) ? BigInt(fmt.wordSize) : b;
+          // 有符号数右移为算术右移 (补符号位)，无符号数为逻辑右移
+          return wrap(node.op === "<<" ? a << shift : a >> shift, fmt);
+        }
+        default:
+          throw unsupported(`"${node.op}"`);
+      }
+    }
+  }
+};
+
+/**
+ * 一步完成分词、解析与整数求值；表达式中的数字均为十进制
+ */
+export const evaluateIntegerExpression = (input: string, fmt: IntegerFormat, variables?: Variables): bigint =>
+  evaluateInteger(parse(tokenize(input), input.length), fmt, variables);
@@ -0,0 +1,201 @@
+// 统计：数据解析、描述统计、四分位数、线性回归与直方图。
+// 求和、平方和等中间量全部用 Decimal 精确计算，每个结果只在最后做一次除法。
+
+import { Decimal, type DecimalContext } from "./calcDecimal.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 描述统计结果；样本方差在只有一个数据时无定义，为 null
+ */
+export interface Summary {
+  count: number;
+  sum: Decimal;
+  mean: Decimal;
+  median: Decimal;
+  modes: Decimal[]; // 出现次数最多的值，所有值都只出现一次时为空
+  min: Decimal;
+  max: Decimal;
+  q1: Decimal;
+  q3: Decimal;
+  populationVariance: Decimal;
+  populationSd: Decimal;
+  sampleVariance: Decimal | null;
+  sampleSd: Decimal | null;
+}
+
+/**
+ * 线性回归 y = slope × x + intercept
+ */
+export interface Regression {
+  slope: Decimal;
+  intercept: Decimal;
+  r: Decimal; // 相关系数
+  r2: Decimal; // 决定系数
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/**
+ * 直方图最多的分组数
+ */
+const maxBins = 20;
+
+// --- 解析 ---
+
+/**
+ * 解析一个数字，出错时在信息中带上行号
+ */
+const parseNumber = (text: string, line: number): Decimal => {
+  try {
+    return Decimal.parse(text.replace("−", "-"));
+  } catch {
+    throw new RangeError(`第 ${line} 行：无效的数字 "${text}"`);
+  }
+};
+
+const splitLine = (line: string): string[] => line.split(/[\s,;]+/).filter(Boolean);
+
+/**
+ * 解析数字列表：以空白、逗号、分号或换行分隔
+ */
+export const parseNumberList = (text: string): Decimal[] =>
+  text.split("\n").flatMap((line, i) => splitLine(line).map((part) => parseNumber(part, i + 1)));
+
+/**
+ * 解析 x / y 两列数据：每个非空行恰好两个数字
+ */
+export const parsePairs = (text: string): { x: Decimal[]; y: Decimal[] } => {
+  const x: Decimal[] = [];
+  const y: Decimal[] = [];
+  text.split("\n").forEach((line, i) => {
+    const parts = splitLine(line);
+    if (parts.length === 0) return;
+    if (parts.length !== 2) throw new RangeError(`第 ${i + 1} 行：需要 x 和 y 两个数字`);
+    x.push(parseNumber(parts[0], i + 1));
+    y.push(parseNumber(parts[1], i + 1));
+  });
+  return { x, y };
+};
+
+// --- 计算 ---
+
+const sumOf = (values: Decimal[]): Decimal => values.reduce((a, b) => a.add(b), Decimal.ZERO);
+
+const count = (n: number): Decimal => new Decimal(BigInt(n));
+
+/**
+ * 分位数 (线性插值，与 Excel QUARTILE.INC 一致)：位置 h = (n − 1) × p
+ */
+const quantile = (sorted: Decimal[], numerator: number, denominator: number, ctx: DecimalContext): Decimal => {
+  const position = (sorted.length - 1) * numerator;
+  const lower = Math.floor(position / denominator);
+  const rest = position % denominator;
+  if (rest === 0) return sorted[lower];
+  const fraction = count(rest).div(count(denominator), ctx);
+  return sorted[lower].add(sorted[lower + 1].sub(sorted[lower]).mul(fraction));
+};
+
+/**
+ * 离差平方和的 n 倍：n Σxy − Σx Σy (x 与 y 相同时即 n Σx² − (Σx)²)
+ */
+const scaledCovariance = (x: Decimal[], y: Decimal[]): Decimal =>
+  count(x.length)
+    .mul(sumOf(x.map((xi, i) => xi.mul(y[i]))))
+    .sub(sumOf(x).mul(sumOf(y)));
+
+/**
+ * 描述统计；数据为空时抛出 RangeError
+ */
+export const summarize = (values: Decimal[], ctx: DecimalContext): Summary => {
+  const n = values.length;
+  if (n === 0) throw new RangeError("没有数据");
+
+  const sorted = [...values].sort((a, b) => a.cmp(b));
+  const sum = sumOf(values);
+
+  // 众数：按规范化后的字符串计数 (Decimal 已去掉末尾的 0)
+  const frequency = new Map<string, number>();
+  for (const v of sorted) frequency.set(v.toString(), (frequency.get(v.toString()) ?? 0) + 1);
+  let highest = 0;
+  for (const c of frequency.values()) highest = Math.max(highest, c);
+  const modes =
+    highest > 1 ? [...frequency].filter(([, c]) => c === highest).map(([v]) => Decimal.parse(v)) : [];
+
+  const squares = scaledCovariance(values, values);
+  const populationVariance = squares.div(count(n * n), ctx);
+  const sampleVariance = n > 1 ? squares.div(count(n * (n - 1)), ctx) : null;
+
+  return {
+    count: n,
+    sum,
+    mean: sum.div(count(n), ctx),
+    median: quantile(sorted, 1, 2, ctx),
+    modes,
+    min: sorted[0],
+    max: sorted[n - 1],
+    q1: quantile(sorted, 1, 4, ctx),
+    q3: quantile(sorted, 3, 4, ctx),
+    populationVariance,
+    populationSd: populationVariance.sqrt(ctx),
+    sampleVariance,
+    sampleSd: sampleVariance && sampleVariance.sqrt(ctx),
+  };
+};
+
+/**
+ * 最小二乘线性回归；少于两个点或 x 全部相同时抛出 RangeError
+ */
+export const linearRegression = (x: Decimal[], y: Decimal[], ctx: DecimalContext): Regression => {
+  if (x.length < 2) throw new RangeError("线性回归至少需要两组数据");
+  const sxx = scaledCovariance(x, x);
+  if (sxx.isZero()) throw new RangeError("x 全部相同，无法做线性回归");
+  const sxy = scaledCovariance(x, y);
+  const syy = scaledCovariance(y, y);
+
+  const slope = sxy.div(sxx, ctx);
+  // 截距 = (Σy Σx² − Σx Σxy) / (n Σx² − (Σx)²)，同样只做一次除法
+  const intercept = sumOf(y)
+    .mul(sumOf(x.map((v) => v.mul(v))))
+    .sub(sumOf(x).mul(sumOf(x.map((xi, i) => xi.mul(y[i])))))
+    .div(sxx, ctx);
+  // y 全部相同时是一条水平线，拟合没有误差
+  const r2 = syy.isZero() ? Decimal.ONE : sxy.mul(sxy).div(sxx.mul(syy), ctx);
+  const r = syy.isZero() ? Decimal.ZERO : sxy.isNegative() ? r2.sqrt(ctx).neg() : r2.sqrt(ctx);
+
+  return { slope, intercept, r, r2 };
+};
+
+/**
+ * 等宽直方图，分组数按 Sturges 公式 (⌈log₂ n⌉ + 1)；有超出双精度范围的值时不分组
+ */
+export const histogram = (values: Decimal[]): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const numbers = values.map((v) => v.toNumber());
+  // 逐个比较而不是展开参数，避免数据量大时超出调用栈
+  let min = Infinity;
+  let max = -Infinity;
+  for (const n of numbers) {
+    if (!Number.isFinite(n)) return [];
+    min = Math.min(min, n);
+    max = Math.max(max, n);
+  }
+  if (min === max) return [{ from: min, to: max, count: numbers.length }];
+
+  const binCount = Math.min(maxBins, Math.ceil(Math.log2(numbers.length)) + 1);
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    from: min + i * width,
+    to: i === binCount - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const n of numbers) {
+    // 最大值落在最后一组
+    bins[Math.min(binCount - 1, Math.floor((n - min) / width))].count++;
+  }
+  return bins;
+};
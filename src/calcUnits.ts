@@ -0,0 +1,234 @@
+// 单位换算：长度、质量、温度、数据大小、时间、面积、速度与货币。
+// 每个单位记录与基准单位的线性关系，换算只做一次除法，结果保持 Decimal 精度。
+
+import { Decimal, type DecimalContext } from "./calcDecimal.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 单位：基准值 = (值 + offset) × factor ÷ divisor
+ * (divisor 用于 1/3600 这类无法用有限小数表示的系数，offset 用于温度)
+ */
+export interface Unit {
+  id: string;
+  label: string;
+  factor: string;
+  divisor?: string;
+  offset?: string;
+}
+
+export interface UnitCategory {
+  id: string;
+  label: string;
+  units: Unit[];
+}
+
+/**
+ * 汇率表：rates[code] 为 1 个基准货币可兑换的该货币数量
+ */
+export interface CurrencyRates {
+  base: string;
+  rates: Record<string, string>;
+  updated: string; // 更新日期，仅用于显示
+}
+
+const storageKey = "calculatorCurrencyRates";
+
+export const currencyCategoryId = "currency";
+
+export const unitCategories: UnitCategory[] = [
+  {
+    id: "length",
+    label: "长度",
+    units: [
+      { id: "mm", label: "毫米 mm", factor: "0.001" },
+      { id: "cm", label: "厘米 cm", factor: "0.01" },
+      { id: "m", label: "米 m", factor: "1" },
+      { id: "km", label: "千米 km", factor: "1000" },
+      { id: "in", label: "英寸 in", factor: "0.0254" },
+      { id: "ft", label: "英尺 ft", factor: "0.3048" },
+      { id: "yd", label: "码 yd", factor: "0.9144" },
+      { id: "mi", label: "英里 mi", factor: "1609.344" },
+      { id: "nmi", label: "海里 nmi", factor: "1852" },
+    ],
+  },
+  {
+    id: "mass",
+    label: "质量",
+    units: [
+      { id: "mg", label: "毫克 mg", factor: "0.000001" },
+      { id: "g", label: "克 g", factor: "0.001" },
+      { id: "kg", label: "千克 kg", factor: "1" },
+      { id: "t", label: "吨 t", factor: "1000" },
+      { id: "jin", label: "斤", factor: "0.5" },
+      { id: "liang", label: "两", factor: "0.05" },
+      { id: "oz", label: "盎司 oz", factor: "0.028349523125" },
+      { id: "lb", label: "磅 lb", factor: "0.45359237" },
+    ],
+  },
+  {
+    id: "temperature",
+    label: "温度",
+    units: [
+      { id: "C", label: "摄氏度 °C", factor: "1" },
+      { id: "F", label: "华氏度 °F", factor: "5", divisor: "9", offset: "-32" },
+      { id: "K", label: "开尔文 K", factor: "1", offset: "-273.15" },
+    ],
+  },
+  {
+    id: "data",
+    label: "数据大小",
+    units: [
+      { id: "bit", label: "位 bit", factor: "1", divisor: "8" },
+      { id: "B", label: "字节 B", factor: "1" },
+      { id: "KB", label: "KB (10³)", factor: "1000" },
+      { id: "MB", label: "MB (10⁶)", factor: "1000000" },
+      { id: "GB", label: "GB (10⁹)", factor: "1000000000" },
+      { id: "TB", label: "TB (10¹²)", factor: "1000000000000" },
+      { id: "KiB", label: "KiB (2¹⁰)", factor: "1024" },
+      { id: "MiB", label: "MiB (2²⁰)", factor: "1048576" },
+      { id: "GiB", label: "GiB (2³⁰)", factor: "1073741824" },
+      { id: "TiB", label: "TiB (2⁴⁰)", factor: "1099511627776" },
+    ],
+  },
+  {
+    id: "time",
+    label: "时间",
+    units: [
+      { id: "ms", label: "毫秒 ms", factor: "0.001" },
+      { id: "s", label: "秒 s", factor: "1" },
+      { id: "min", label: "分钟 min", factor: "60" },
+      { id: "h", label: "小时 h", factor: "3600" },
+      { id: "d", label: "天 d", factor: "86400" },
+      { id: "wk", label: "周 wk", factor: "604800" },
+      { id: "yr", label: "年 (365 天)", factor: "31536000" },
+    ],
+  },
+  {
+    id: "area",
+    label: "面积",
+    units: [
+      { id: "mm2", label: "平方毫米 mm²", factor: "0.000001" },
+      { id: "cm2", label: "平方厘米 cm²", factor: "0.0001" },
+      { id: "m2", label: "平方米 m²", factor: "1" },
+      { id: "ha", label: "公顷 ha", factor: "10000" },
+      { id: "km2", label: "平方千米 km²", factor: "1000000" },
+      { id: "mu", label: "亩", factor: "10000", divisor: "15" },
+      { id: "in2", label: "平方英寸 in²", factor: "0.00064516" },
+      { id: "ft2", label: "平方英尺 ft²", factor: "0.09290304" },
+      { id: "acre", label: "英亩 acre", factor: "4046.8564224" },
+    ],
+  },
+  {
+    id: "speed",
+    label: "速度",
+    units: [
+      { id: "mps", label: "米/秒 m/s", factor: "1" },
+      { id: "kmh", label: "千米/时 km/h", factor: "1000", divisor: "3600" },
+      { id: "mph", label: "英里/时 mph", factor: "1609.344", divisor: "3600" },
+      { id: "kn", label: "节 kn", factor: "1852", divisor: "3600" },
+      { id: "fps", label: "英尺/秒 ft/s", factor: "0.3048" },
+    ],
+  },
+];
+
+/**
+ * 默认汇率仅为示例 (离线使用)，请按实际汇率修改或导入
+ */
+export const defaultCurrencyRates: CurrencyRates = {
+  base: "CNY",
+  rates: {
+    CNY: "1",
+    USD: "0.1389",
+    EUR: "0.1282",
+    GBP: "0.1099",
+    JPY: "21.05",
+    HKD: "1.0811",
+  },
+  updated: "",
+};
+
+// --- 帮助函数 ---
+
+/**
+ * 由汇率表生成货币单位；汇率无效 (非正数) 的货币不参与换算
+ */
+export const currencyUnits = (table: CurrencyRates): Unit[] =>
+  Object.entries(table.rates)
+    .filter(([, rate]) => isValidRate(rate))
+    .map(([code, rate]) => ({ id: code, label: code, factor: "1", divisor: rate }));
+
+/**
+ * 判断汇率字符串是否为正数
+ */
+export const isValidRate = (rate: string): boolean => {
+  try {
+    return Decimal.parse(rate).cmp(Decimal.ZERO) > 0;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 单位换算：先换算到基准单位，再换算到目标单位，整个过程只做一次除法
+ */
+export const convertUnit = (value: Decimal, from: Unit, to: Unit, ctx: DecimalContext): Decimal => {
+  const d = (text: string | undefined, fallback: Decimal) => (text ? Decimal.parse(text) : fallback);
+  const shifted = value.add(d(from.offset, Decimal.ZERO));
+  const numerator = shifted.mul(d(from.factor, Decimal.ONE)).mul(d(to.divisor, Decimal.ONE));
+  const denominator = d(from.divisor, Decimal.ONE).mul(d(to.factor, Decimal.ONE));
+  return numerator.div(denominator, ctx).sub(d(to.offset, Decimal.ZERO));
+};
+
+/**
+ * 解析导入的汇率 JSON，例如 { "base": "USD", "rates": { "CNY": 7.2, "EUR": 0.92 } }；
+ * 格式不正确时抛出 Error
+ */
+export const parseCurrencyRates = (json: string): CurrencyRates => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("不是有效的 JSON 文件");
+  }
+  if (typeof data !== "object" || data === null || !("rates" in data)) {
+    throw new Error("缺少 rates 字段");
+  }
+  const { base, rates, updated, date } = data as Record<string, unknown>;
+  if (typeof rates !== "object" || rates === null) {
+    throw new Error("rates 必须是 { 货币代码: 汇率 } 形式的对象");
+  }
+
+  const parsed: Record<string, string> = {};
+  for (const [code, rate] of Object.entries(rates)) {
+    const text = String(rate);
+    if ((typeof rate !== "number" && typeof rate !== "string") || !isValidRate(text)) {
+      throw new Error(`货币 ${code} 的汇率无效`);
+    }
+    parsed[code.toUpperCase()] = text;
+  }
+  const baseCode = typeof base === "string" ? base.toUpperCase() : Object.keys(parsed)[0];
+  if (!baseCode) throw new Error("汇率表为空");
+  // 基准货币自身的汇率固定为 1
+  parsed[baseCode] = "1";
+
+  const stamp = typeof updated === "string" ? updated : typeof date === "string" ? date : "";
+  return { base: baseCode, rates: parsed, updated: stamp };
+};
+
+/**
+ * 从 localStorage 读取汇率表
+ */
+export const loadCurrencyRates = (): CurrencyRates => {
+  if (typeof window === "undefined") return defaultCurrencyRates;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey) ?? "null");
+    return saved ? { ...defaultCurrencyRates, ...saved } : defaultCurrencyRates;
+  } catch {
+    return defaultCurrencyRates;
+  }
+};
+
+export const saveCurrencyRates = (table: CurrencyRates): void => {
+  window.localStorage.setItem(storageKey, JSON.stringify(table));
+};
@@ -0,0 +1,27 @@
+/**
+ * 将文本复制到剪贴板（兼容 iFrame）
+ */
+export function copyToClipboard(text: string): boolean {
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  
+  // 设置为不可见并添加到 DOM
+  textarea.style.position = 'absolute';
+  textarea.style.left = '-9999px';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  
+  textarea.select();
+  textarea.focus(); // 确保选中
+  
+  try {
+    // 使用 document.execCommand
+    const success = document.execCommand('copy');
+    return success;
+  } catch (err) {
+    console.error('无法复制文本: ', err);
+    return false;
+  } finally {
+    document.body.removeChild(textarea);
+  }
+}
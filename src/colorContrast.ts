@@ -0,0 +1,121 @@
+// 对比度计算：WCAG 2.x 对比度与等级、APCA (0.0.98G-4g) 的 Lc 值，
+// 以及不达标时在 OKLCH 中调整明度，找出最接近的达标颜色。
+
+import { oklchToGamut, rgbToLinear, rgbToOklch, type ColorData, type Rgb } from "./colorSpaces.ts";
+
+// --- 类型定义 ---
+
+/**
+ * WCAG 的一项要求：正文或大字 (18pt，或 14pt 粗体以上) 的 AA / AAA
+ */
+export interface WcagLevel {
+  id: string;
+  label: string;
+  ratio: number; // 需要达到的对比度
+}
+
+/**
+ * 向更亮、更暗两个方向找到的达标颜色；该方向无法达标时为 null
+ */
+export interface ContrastSuggestion {
+  lighter: ColorData | null;
+  darker: ColorData | null;
+}
+
+export const wcagLevels: WcagLevel[] = [
+  { id: "aa", label: "AA 正文", ratio: 4.5 },
+  { id: "aaLarge", label: "AA 大字", ratio: 3 },
+  { id: "aaa", label: "AAA 正文", ratio: 7 },
+  { id: "aaaLarge", label: "AAA 大字", ratio: 4.5 },
+];
+
+// --- WCAG 2.x ---
+
+/**
+ * 相对亮度 (0 ~ 1)
+ */
+export const relativeLuminance = (color: Rgb): number => {
+  const [r, g, b] = rgbToLinear(color);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * 对比度 1 ~ 21，与前景、背景的顺序无关
+ */
+export const contrastRatio = (a: Rgb, b: Rgb): number => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// --- APCA ---
+
+/**
+ * APCA 使用的屏幕亮度 (简单的 2.4 次幂，不同于 WCAG 的分段曲线)
+ */
+const apcaLuminance = ({ r, g, b }: Rgb): number => {
+  const y = 0.2126729 * (r / 255) ** 2.4 + 0.7151522 * (g / 255) ** 2.4 + 0.072175 * (b / 255) ** 2.4;
+  // 接近黑色时软钳制
+  return y < 0.022 ? y + (0.022 - y) ** 1.414 : y;
+};
+
+/**
+ * APCA 对比度 Lc：正值为浅底深字，负值为深底浅字，约 -108 ~ 106；与顺序有关
+ */
+export const apcaContrast = (text: Rgb, background: Rgb): number => {
+  const yText = apcaLuminance(text);
+  const yBackground = apcaLuminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+  if (yBackground > yText) {
+    const sapc = (yBackground ** 0.56 - yText ** 0.57) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (yBackground ** 0.65 - yText ** 0.62) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+};
+
+/**
+ * APCA 的大致用途说明 (按 Lc 绝对值)
+ */
+export const apcaRating = (lc: number): string => {
+  const value = Math.abs(lc);
+  if (value >= 90) return "适合各种正文";
+  if (value >= 75) return "适合正文";
+  if (value >= 60) return "适合较大的正文";
+  if (value >= 45) return "适合标题、大字";
+  if (value >= 30) return "仅适合非文字元素";
+  if (value >= 15) return "仅适合分隔线等";
+  return "几乎不可见";
+};
+
+// --- 建议 ---
+
+/**
+ * 保持 OKLCH 的色相与色度 (超出色域时降低色度)，只调整明度，
+ * 在更亮、更暗两个方向上二分查找与背景对比度达到 ratio 的最接近颜色
+ */
+export const suggestPassing = (foreground: Rgb, background: Rgb, ratio: number): ContrastSuggestion => {
+  const [l, c, h] = rgbToOklch(foreground);
+  const passes = (color: ColorData) => contrastRatio(color, background) >= ratio;
+
+  const search = (target: number): ColorData | null => {
+    const end = oklchToGamut([target, c, h]);
+    if (!passes(end)) return null;
+    // 不变式：good 一侧达标，bad 一侧不达标；取整后的颜色参与判断，结果一定达标
+    let bad = l;
+    let good = target;
+    let best = end;
+    for (let i = 0; i < 24; i++) {
+      const mid = (bad + good) / 2;
+      const color = oklchToGamut([mid, c, h]);
+      if (passes(color)) {
+        good = mid;
+        best = color;
+      } else {
+        bad = mid;
+      }
+    }
+    return best;
+  };
+
+  return { lighter: search(1), darker: search(0) };
+};
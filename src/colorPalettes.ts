@@ -0,0 +1,244 @@
+// 取色历史与调色板：保存在 localStorage；调色板可导出为 CSS 变量、Tailwind 配置、
+// JSON 设计令牌 (W3C Design Tokens 格式)、GIMP .gpl 与 Adobe .ase，可导入 .gpl 与 JSON。
+
+import { parseHex, rgbToHex } from "./colorSpaces.ts";
+import { createId, loadJson } from "./utils.ts";
+
+// --- 类型定义 ---
+
+export interface Palette {
+  id: string;
+  name: string;
+  colors: string[]; // #RRGGBB
+}
+
+export type ExportFormat = "css" | "tailwind" | "json" | "gpl" | "ase";
+
+export const exportFormats: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: "css", label: "CSS 变量", extension: "css", mimeType: "text/css" },
+  { value: "tailwind", label: "Tailwind", extension: "js", mimeType: "text/javascript" },
+  { value: "json", label: "JSON 令牌", extension: "json", mimeType: "application/json" },
+  { value: "gpl", label: "GIMP .gpl", extension: "gpl", mimeType: "text/plain" },
+  { value: "ase", label: "Adobe .ase", extension: "ase", mimeType: "application/octet-stream" },
+];
+
+const historyKey = "eyedropperHistory";
+const palettesKey = "eyedropperPalettes";
+
+/**
+ * 历史记录最多保留的颜色数
+ */
+export const maxHistory = 48;
+
+// --- 帮助函数 ---
+
+/**
+ * 统一为大写的 #RRGGBB；无效时返回 null
+ */
+export const normalizeHex = (text: string): string | null => {
+  const color = parseHex(text);
+  return color && rgbToHex(color.r, color.g, color.b);
+};
+
+/**
+ * 加入历史记录：最新的在前，重复的颜色移到最前
+ */
+export const addToHistory = (history: string[], hex: string): string[] =>
+  [hex, ...history.filter((h) => h !== hex)].slice(0, maxHistory);
+
+export const createPalette = (name: string, colors: string[] = []): Palette => ({ id: createId(), name, colors });
+
+/**
+ * 把列表中 from 位置的元素移到 to 位置
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to > from ? to - 1 : to, 0, item);
+  return next;
+};
+
+/**
+ * 调色板名称转为变量名，例如 "Brand Blue" -> "brand-blue"；没有可用字符时为 "palette"
+ */
+export const paletteSlug = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "palette";
+
+/**
+ * 每个颜色的令牌名：按顺序编号 1、2、3 ...
+ */
+const tokenEntries = (palette: Palette): [string, string][] =>
+  palette.colors.map((hex, i) => [String(i + 1), hex]);
+
+// --- 导出 ---
+
+export const toCssVariables = (palette: Palette): string => {
+  const slug = paletteSlug(palette.name);
+  const lines = tokenEntries(palette).map(([key, hex]) => `  --${slug}-${key}: ${hex};`);
+  return `:root {\n${lines.join("\n")}\n}\n`;
+};
+
+/**
+ * Tailwind 配置片段，合并到 tailwind.config.js 中使用
+ */
+export const toTailwind = (palette: Palette): string => {
+  const colors = { [paletteSlug(palette.name)]: Object.fromEntries(tokenEntries(palette)) };
+  return `export default ${JSON.stringify({ theme: { extend: { colors } } }, null, 2)};\n`;
+};
+
+/**
+ * W3C Design Tokens 格式：{ "brand": { "$type": "color", "1": { "$value": "#..." } } }
+ */
+export const toDesignTokens = (palette: Palette): string => {
+  const tokens = Object.fromEntries(tokenEntries(palette).map(([key, hex]) => [key, { $value: hex }]));
+  return JSON.stringify({ [paletteSlug(palette.name)]: { $type: "color", ...tokens } }, null, 2) + "\n";
+};
+
+export const toGpl = (palette: Palette): string => {
+  const lines = palette.colors.map((hex) => {
+    const { r, g, b } = parseHex(hex)!;
+    return `${[r, g, b].map((v) => String(v).padStart(3)).join(" ")}\t${hex}`;
+  });
+  return ["GIMP Palette", `Name: ${palette.name}`, "Columns: 8", "#", ...lines, ""].join("\n");
+};
+
+/**
+ * Adobe Swatch Exchange (.ase)：大端序二进制，调色板作为一个分组，颜色为 RGB 浮点数
+ */
+export const toAse = (palette: Palette): Uint8Array<ArrayBuffer> => {
+  // 名称为 UTF-16BE，带长度 (含结尾的 0)
+  const nameBytes = (name: string): number[] => {
+    const bytes = [((name.length + 1) >> 8) & 0xff, (name.length + 1) & 0xff];
+    for (let i = 0; i < name.length; i++) {
+      const code = name.charCodeAt(i);
+      bytes.push(code >> 8, code & 0xff);
+    }
+    return [...bytes, 0, 0];
+  };
+  const blocks: { type: number; body: number[] }[] = [{ type: 0xc001, body: nameBytes(palette.name) }];
+  for (const hex of palette.colors) {
+    const { r, g, b } = parseHex(hex)!;
+    const values = new DataView(new ArrayBuffer(12));
+    [r, g, b].forEach((v, i) => values.setFloat32(i * 4, v / 255));
+    blocks.push({
+      type: 0x0001,
+      // 名称、颜色模型 "RGB "、三个分量、颜色类型 (2 = 普通)
+      body: [...nameBytes(hex), ...[..."RGB "].map((c) => c.charCodeAt(0)), ...new Uint8Array(values.buffer), 0, 2],
+    });
+  }
+  blocks.push({ type: 0xc002, body: [] });
+
+  const size = 12 + blocks.reduce((sum, block) => sum + 6 + block.body.length, 0);
+  const view = new DataView(new ArrayBuffer(size));
+  [..."ASEF"].forEach((c, i) => view.setUint8(i, c.charCodeAt(0)));
+  view.setUint16(4, 1); // 版本 1.0
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+  let offset = 12;
+  for (const block of blocks) {
+    view.setUint16(offset, block.type);
+    view.setUint32(offset + 2, block.body.length);
+    block.body.forEach((byte, i) => view.setUint8(offset + 6 + i, byte));
+    offset += 6 + block.body.length;
+  }
+  return new Uint8Array(view.buffer);
+};
+
+export const exportPalette = (palette: Palette, format: ExportFormat): string | Uint8Array<ArrayBuffer> => {
+  switch (format) {
+    case "css":
+      return toCssVariables(palette);
+    case "tailwind":
+      return toTailwind(palette);
+    case "json":
+      return toDesignTokens(palette);
+    case "gpl":
+      return toGpl(palette);
+    case "ase":
+      return toAse(palette);
+  }
+};
+
+// --- 导入 ---
+
+/**
+ * 解析 GIMP .gpl 调色板
+ */
+export const parseGpl = (text: string, fallbackName: string): Palette => {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.startsWith("GIMP Palette")) throw new Error("不是 GIMP 调色板文件");
+  let name = fallbackName;
+  const colors: string[] = [];
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("Name:")) name = trimmed.slice(5).trim() || name;
+    const match = trimmed.match(/^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})/);
+    if (match) colors.push(rgbToHex(Number(match[1]), Number(match[2]), Number(match[3])));
+  }
+  if (colors.length === 0) throw new Error("文件中没有颜色");
+  return createPalette(name, colors);
+};
+
+/**
+ * 解析 JSON：颜色数组、{ name, colors } 或设计令牌 (收集所有 $value 颜色)
+ */
+export const parsePaletteJson = (text: string, fallbackName: string): Palette => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("JSON 格式错误");
+  }
+  const colors: string[] = [];
+  const collect = (value: unknown) => {
+    // 只收集带 # 的字符串，避免把 "bad"、"fed" 这类文字当成颜色
+    if (typeof value === "string") {
+      const hex = value.trim().startsWith("#") && normalizeHex(value);
+      if (hex) colors.push(hex);
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === "object") {
+      const record = value as Record<string, unknown>;
+      if ("$value" in record) collect(record.$value);
+      else Object.entries(record).forEach(([key, v]) => !key.startsWith("$") && collect(v));
+    }
+  };
+  collect(data);
+  if (colors.length === 0) throw new Error("文件中没有颜色");
+
+  // 名称：{ name } 字段，或设计令牌中唯一的顶层分组名
+  let name = fallbackName;
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const record = data as Record<string, unknown>;
+    const keys = Object.keys(record);
+    if (typeof record.name === "string") name = record.name;
+    else if (keys.length === 1) name = keys[0];
+  }
+  return createPalette(name, colors);
+};
+
+/**
+ * 按扩展名导入调色板文件
+ */
+export const importPalette = (fileName: string, text: string): Palette => {
+  const name = fileName.replace(/\.[^.]+$/, "");
+  return /\.gpl$/i.test(fileName) ? parseGpl(text, name) : parsePaletteJson(text, name);
+};
+
+// --- 持久化 ---
+
+export const loadHistory = (): string[] => loadJson(historyKey, []);
+
+export const saveHistory = (history: string[]): void => {
+  window.localStorage.setItem(historyKey, JSON.stringify(history));
+};
+
+export const loadPalettes = (): Palette[] => loadJson(palettesKey, []);
+
+export const savePalettes = (palettes: Palette[]): void => {
+  window.localStorage.setItem(palettesKey, JSON.stringify(palettes));
+};
@@ -0,0 +1,183 @@
+// 颜色量化：用中位切分 (median cut) 或 k-means 从像素中找出 N 种主色及其占比。
+// 纯函数，在 Web Worker (colorQuantize.worker.ts) 中运行，避免大图卡住页面。
+
+import { rgbToHex } from "./colorSpaces.ts";
+
+// --- 类型定义 ---
+
+export type QuantizeMethod = "medianCut" | "kMeans";
+
+export interface DominantColor {
+  hex: string; // #RRGGBB
+  share: number; // 覆盖的像素比例 0 ~ 1
+}
+
+/**
+ * 发给 Worker 的请求；pixels 为 RGBA 数据，以 transfer 方式传递
+ */
+export interface QuantizeRequest {
+  id: number;
+  pixels: Uint8ClampedArray<ArrayBuffer>;
+  count: number;
+  method: QuantizeMethod;
+}
+
+export type QuantizeResponse = { id: number; colors: DominantColor[] } | { id: number; error: string };
+
+export const quantizeMethods: { value: QuantizeMethod; label: string }[] = [
+  { value: "medianCut", label: "中位切分" },
+  { value: "kMeans", label: "k-means" },
+];
+
+/**
+ * 参与计算的最多像素数；更大的图片均匀抽样
+ */
+const maxSamples = 200_000;
+const kMeansIterations = 20;
+
+// --- 帮助函数 ---
+
+/**
+ * 抽样出不透明的像素，每个像素为 [r, g, b]
+ */
+const samplePixels = (pixels: Uint8ClampedArray): number[][] => {
+  const total = pixels.length / 4;
+  const stride = Math.max(1, Math.floor(total / maxSamples));
+  const samples: number[][] = [];
+  for (let i = 0; i < total; i += stride) {
+    const k = i * 4;
+    // 半透明以下的像素不计入
+    if (pixels[k + 3] >= 128) samples.push([pixels[k], pixels[k + 1], pixels[k + 2]]);
+  }
+  return samples;
+};
+
+const average = (items: number[][]): number[] => {
+  const sum = [0, 0, 0];
+  for (const p of items) {
+    sum[0] += p[0];
+    sum[1] += p[1];
+    sum[2] += p[2];
+  }
+  return sum.map((v) => v / items.length);
+};
+
+const distance2 = (a: number[], b: number[]): number =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const toResult = (groups: { color: number[]; size: number }[], total: number): DominantColor[] =>
+  groups
+    .filter((g) => g.size > 0)
+    .map((g) => ({ hex: rgbToHex(g.color[0], g.color[1], g.color[2]), share: g.size / total }))
+    .sort((a, b) => b.share - a.share);
+
+// --- 中位切分 ---
+
+/**
+ * 反复把范围最大的颜色盒沿最长的通道在中位数处切开，直到有 count 个盒子
+ */
+const medianCut = (samples: number[][], count: number): DominantColor[] => {
+  const range = (box: number[][], c: number) => {
+    let min = 255;
+    let max = 0;
+    for (const p of box) {
+      if (p[c] < min) min = p[c];
+      if (p[c] > max) max = p[c];
+    }
+    return max - min;
+  };
+  const boxes = [samples];
+  while (boxes.length < count) {
+    // 按范围 × 像素数选择，避免只切分少数几个离群像素
+    let best = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      const ranges = [0, 1, 2].map((c) => range(box, c));
+      const channel = ranges.indexOf(Math.max(...ranges));
+      const score = ranges[channel] * box.length;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+        bestChannel = channel;
+      }
+    });
+    if (best < 0) break; // 颜色已经不够分
+    const box = boxes[best].sort((a, b) => a[bestChannel] - b[bestChannel]);
+    // 从中位数移到最近的取值变化处，同一种颜色不会被切到两个盒子里
+    const middle = Math.floor(box.length / 2);
+    const changes = (i: number) => i > 0 && i < box.length && box[i - 1][bestChannel] !== box[i][bestChannel];
+    let cut = middle;
+    for (let d = 0; d < box.length; d++) {
+      if (changes(middle - d)) {
+        cut = middle - d;
+        break;
+      }
+      if (changes(middle + d)) {
+        cut = middle + d;
+        break;
+      }
+    }
+    boxes.splice(best, 1, box.slice(0, cut), box.slice(cut));
+  }
+  return toResult(
+    boxes.map((box) => ({ color: average(box), size: box.length })),
+    samples.length
+  );
+};
+
+// --- k-means ---
+
+/**
+ * k-means++ 选初始中心，再迭代到中心不再变化或达到次数上限
+ */
+const kMeans = (samples: number[][], count: number): DominantColor[] => {
+  const centers = [samples[Math.floor(Math.random() * samples.length)]];
+  const nearest = samples.map((p) => distance2(p, centers[0]));
+  while (centers.length < count) {
+    const sum = nearest.reduce((a, b) => a + b, 0);
+    if (sum === 0) break; // 其余像素都与已有中心相同
+    let r = Math.random() * sum;
+    let index = 0;
+    while (r > nearest[index] && index < samples.length - 1) r -= nearest[index++];
+    centers.push(samples[index]);
+    samples.forEach((p, i) => (nearest[i] = Math.min(nearest[i], distance2(p, samples[index]))));
+  }
+
+  const labels = new Int32Array(samples.length).fill(-1);
+  let sizes: number[] = [];
+  for (let iteration = 0; iteration < kMeansIterations; iteration++) {
+    let changed = false;
+    samples.forEach((p, i) => {
+      let best = 0;
+      for (let c = 1; c < centers.length; c++) {
+        if (distance2(p, centers[c]) < distance2(p, centers[best])) best = c;
+      }
+      if (labels[i] !== best) {
+        labels[i] = best;
+        changed = true;
+      }
+    });
+    const groups: number[][][] = centers.map(() => []);
+    samples.forEach((p, i) => groups[labels[i]].push(p));
+    sizes = groups.map((g) => g.length);
+    groups.forEach((g, c) => g.length > 0 && (centers[c] = average(g)));
+    if (!changed) break;
+  }
+  return toResult(
+    centers.map((color, c) => ({ color, size: sizes[c] })),
+    samples.length
+  );
+};
+
+// --- 入口 ---
+
+/**
+ * 从 RGBA 像素中提取 count 种主色，按占比从大到小排列；全透明的图片返回空数组
+ */
+export const dominantColors = (pixels: Uint8ClampedArray, count: number, method: QuantizeMethod): DominantColor[] => {
+  const samples = samplePixels(pixels);
+  if (samples.length === 0) return [];
+  return method === "kMeans" ? kMeans(samples, count) : medianCut(samples, count);
+};
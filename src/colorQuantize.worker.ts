@@ -0,0 +1,14 @@
+// 主色提取的 Web Worker：接收像素数据，返回主色与占比。
+
+import { dominantColors, type QuantizeRequest, type QuantizeResponse } from "./colorQuantize.ts";
+
+self.onmessage = (e: MessageEvent<QuantizeRequest>) => {
+  const { id, pixels, count, method } = e.data;
+  let response: QuantizeResponse;
+  try {
+    response = { id, colors: dominantColors(pixels, count, method) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
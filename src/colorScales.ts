@@ -0,0 +1,84 @@
+// 由一个颜色生成色阶与配色：在 OKLCH 中生成 Tailwind 风格的 50 ~ 950 色阶，
+// 以及互补、类似、三角、四角 (矩形)、分裂互补配色；超出 sRGB 色域时降低色度。
+
+import { oklchToGamut, rgbToOklch, type ColorData, type Rgb } from "./colorSpaces.ts";
+
+// --- 类型定义 ---
+
+export interface Shade {
+  step: number; // 50、100 ... 950
+  color: ColorData;
+  base: boolean; // 是否为原始颜色所在的一级
+}
+
+export interface Harmony {
+  id: string;
+  label: string;
+  colors: ColorData[]; // 第一个为原始颜色
+}
+
+/**
+ * 色阶各级与其参考明度、相对色度 (参照 Tailwind 默认色板在 OKLCH 中的分布)
+ */
+const scaleSteps: { step: number; lightness: number; chroma: number }[] = [
+  { step: 50, lightness: 0.975, chroma: 0.1 },
+  { step: 100, lightness: 0.94, chroma: 0.2 },
+  { step: 200, lightness: 0.885, chroma: 0.4 },
+  { step: 300, lightness: 0.81, chroma: 0.65 },
+  { step: 400, lightness: 0.71, chroma: 0.88 },
+  { step: 500, lightness: 0.635, chroma: 1 },
+  { step: 600, lightness: 0.56, chroma: 0.98 },
+  { step: 700, lightness: 0.49, chroma: 0.88 },
+  { step: 800, lightness: 0.42, chroma: 0.75 },
+  { step: 900, lightness: 0.37, chroma: 0.6 },
+  { step: 950, lightness: 0.27, chroma: 0.45 },
+];
+
+/**
+ * 各种配色相对原始颜色的色相偏移 (度)
+ */
+const harmonyOffsets: { id: string; label: string; offsets: number[] }[] = [
+  { id: "complementary", label: "互补", offsets: [0, 180] },
+  { id: "analogous", label: "类似", offsets: [0, -30, 30] },
+  { id: "triadic", label: "三角", offsets: [0, 120, 240] },
+  { id: "tetradic", label: "四角", offsets: [0, 90, 180, 270] },
+  { id: "splitComplementary", label: "分裂互补", offsets: [0, 150, 210] },
+];
+
+// --- 色阶 ---
+
+/**
+ * 50 ~ 950 色阶：原始颜色放在参考明度最接近的一级 (保持不变)，
+ * 其余各级的明度在参考值上叠加原始颜色的偏差，越靠近两端偏差越小，
+ * 色度按参考比例缩放，色相不变
+ */
+export const shadeScale = (color: Rgb): Shade[] => {
+  const [l, c, h] = rgbToOklch(color);
+  let anchor = 0;
+  scaleSteps.forEach((s, i) => {
+    if (Math.abs(s.lightness - l) < Math.abs(scaleSteps[anchor].lightness - l)) anchor = i;
+  });
+  const last = scaleSteps.length - 1;
+  const offset = l - scaleSteps[anchor].lightness;
+
+  return scaleSteps.map((s, i) => {
+    if (i === anchor) return { step: s.step, color: oklchToGamut([l, c, h]), base: true };
+    const weight = i < anchor ? i / anchor : (last - i) / (last - anchor);
+    const chroma = (c * s.chroma) / scaleSteps[anchor].chroma;
+    return { step: s.step, color: oklchToGamut([s.lightness + offset * weight, chroma, h]), base: false };
+  });
+};
+
+// --- 配色 ---
+
+/**
+ * 保持明度与色度，只旋转色相；灰色没有色相，得到的仍是同一个灰色
+ */
+export const harmonies = (color: Rgb): Harmony[] => {
+  const [l, c, h] = rgbToOklch(color);
+  return harmonyOffsets.map(({ id, label, offsets }) => ({
+    id,
+    label,
+    colors: offsets.map((o) => oklchToGamut([l, c, (h + o + 360) % 360])),
+  }));
+};
@@ -0,0 +1,532 @@
+// 颜色空间转换：sRGB 与 HSL、HSV、HWB、CMYK、CIE Lab/LCH (D50)、OKLab/OKLCH 互转，
+// 以及各格式的文本显示与解析、最接近的 CSS 命名颜色。
+// 公式与矩阵取自 CSS Color Module Level 4；这里只有纯函数，不依赖 DOM。
+
+// --- 类型定义 ---
+
+/**
+ * 取色结果，r/g/b/a 为 0 ~ 255 的整数
+ */
+export interface ColorData {
+  r: number;
+  g: number;
+  b: number;
+  a: number; // 将始终为 255，因为 sRGBHex 不含 alpha
+}
+
+/**
+ * 计算用的 sRGB 颜色，分量为 0 ~ 255 的浮点数 (超出范围表示在 sRGB 色域之外)
+ */
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export type Triple = [number, number, number];
+
+/**
+ * 一种可显示、可编辑的颜色格式
+ */
+export interface ColorFormat {
+  id: string;
+  label: string;
+  format: (color: Rgb) => string;
+  parse: (text: string) => Rgb | null; // 无法解析时返回 null
+}
+
+// --- 帮助函数 ---
+
+const clamp = (v: number, min: number, max: number): number => Math.min(max, Math.max(min, v));
+
+const round = (v: number, digits: number): number => {
+  const p = 10 ** digits;
+  // 加 0 避免显示 -0
+  return Math.round(v * p) / p + 0;
+};
+
+const multiply = (m: number[][], [x, y, z]: Triple): Triple => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z,
+];
+
+const normalizeHue = (h: number): number => ((h % 360) + 360) % 360;
+
+/**
+ * 转为取色结果：截断到 sRGB 色域并取整
+ */
+export const toColorData = ({ r, g, b }: Rgb): ColorData => ({
+  r: Math.round(clamp(r, 0, 255)),
+  g: Math.round(clamp(g, 0, 255)),
+  b: Math.round(clamp(b, 0, 255)),
+  a: 255,
+});
+
+/**
+ * 是否在 sRGB 色域内 (允许微小的计算误差)
+ */
+export const isInGamut = ({ r, g, b }: Rgb): boolean =>
+  [r, g, b].every((v) => v >= -0.5 && v <= 255.5);
+
+// --- HEX ---
+
+/**
+ * 将 RGB 颜色转换为 Hex 字符串
+ */
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  "#" +
+  [r, g, b]
+    .map((x) => Math.round(clamp(x, 0, 255)).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+
+/**
+ * 解析 #RGB 或 #RRGGBB (# 可省略)，格式不对时返回 null
+ */
+export const parseHex = (hex: string): ColorData | null => {
+  let value = hex.trim().replace(/^#/, "");
+  if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) return null;
+  // 处理缩写 (例如 #03F)
+  if (value.length === 3) value = value.replace(/./g, (c) => c + c);
+  return {
+    r: parseInt(value.substring(0, 2), 16),
+    g: parseInt(value.substring(2, 4), 16),
+    b: parseInt(value.substring(4, 6), 16),
+    a: 255, // sRGBHex 不包含 alpha
+  };
+};
+
+/**
+ * 将 Hex 字符串 (#RRGGBB) 转换为 ColorData；无效时为黑色
+ */
+export const hexToRgba = (hex: string): ColorData => parseHex(hex) ?? { r: 0, g: 0, b: 0, a: 255 };
+
+// --- HSL / HSV / HWB ---
+
+/**
+ * 由 RGB 分量 (0 ~ 1) 计算色相；灰色的色相记为 0
+ */
+const hueOf = (r: number, g: number, b: number, max: number, d: number): number => {
+  if (d === 0) return 0;
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return h * 60;
+};
+
+/**
+ * 返回 [色相 0 ~ 360, 饱和度 0 ~ 100, 亮度 0 ~ 100]
+ */
+export const rgbToHsl = ({ r, g, b }: Rgb): Triple => {
+  const [R, G, B] = [r / 255, g / 255, b / 255];
+  const max = Math.max(R, G, B);
+  const min = Math.min(R, G, B);
+  const l = (max + min) / 2;
+  const d = max - min;
+  const s = d === 0 ? 0 : d / (1 - Math.abs(2 * l - 1));
+  return [hueOf(R, G, B, max, d), s * 100, l * 100];
+};
+
+export const hslToRgb = ([h, s, l]: Triple): Rgb => {
+  const S = s / 100;
+  const L = l / 100;
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return (L - S * Math.min(L, 1 - L) * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return { r: f(0), g: f(8), b: f(4) };
+};
+
+/**
+ * 返回 [色相, 饱和度 0 ~ 100, 明度 0 ~ 100]
+ */
+export const rgbToHsv = ({ r, g, b }: Rgb): Triple => {
+  const [R, G, B] = [r / 255, g / 255, b / 255];
+  const max = Math.max(R, G, B);
+  const d = max - Math.min(R, G, B);
+  return [hueOf(R, G, B, max, d), max === 0 ? 0 : (d / max) * 100, max * 100];
+};
+
+export const hsvToRgb = ([h, s, v]: Triple): Rgb => {
+  const S = s / 100;
+  const V = v / 100;
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return (V - V * S * Math.max(0, Math.min(k, 4 - k, 1))) * 255;
+  };
+  return { r: f(5), g: f(3), b: f(1) };
+};
+
+/**
+ * 返回 [色相, 白度 0 ~ 100, 黑度 0 ~ 100]
+ */
+export const rgbToHwb = (color: Rgb): Triple => {
+  const [h] = rgbToHsv(color);
+  const { r, g, b } = color;
+  return [h, (Math.min(r, g, b) / 255) * 100, (1 - Math.max(r, g, b) / 255) * 100];
+};
+
+export const hwbToRgb = ([h, w, bl]: Triple): Rgb => {
+  const W = w / 100;
+  const B = bl / 100;
+  // 白度与黑度之和超过 100% 时按比例缩放，结果为灰色
+  if (W + B >= 1) {
+    const gray = (W / (W + B)) * 255;
+    return { r: gray, g: gray, b: gray };
+  }
+  const { r, g, b } = hsvToRgb([h, 100, 100]);
+  const scale = (v: number) => (v / 255) * (1 - W - B) * 255 + W * 255;
+  return { r: scale(r), g: scale(g), b: scale(b) };
+};
+
+// --- CMYK ---
+
+/**
+ * 简单的 CMYK 换算 (不含色彩管理)，各分量 0 ~ 100
+ */
+export const rgbToCmyk = ({ r, g, b }: Rgb): [number, number, number, number] => {
+  const k = 1 - Math.max(r, g, b) / 255;
+  if (k >= 1) return [0, 0, 0, 100];
+  const part = (v: number) => ((1 - v / 255 - k) / (1 - k)) * 100;
+  return [part(r), part(g), part(b), k * 100];
+};
+
+export const cmykToRgb = ([c, m, y, k]: [number, number, number, number]): Rgb => {
+  const part = (v: number) => 255 * (1 - v / 100) * (1 - k / 100);
+  return { r: part(c), g: part(m), b: part(y) };
+};
+
+// --- 线性 sRGB 与 XYZ ---
+
+const toLinear = (v: number): number => {
+  const c = v / 255;
+  const abs = Math.abs(c);
+  return abs <= 0.04045 ? c / 12.92 : Math.sign(c) * ((abs + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (c: number): number => {
+  const abs = Math.abs(c);
+  return (abs <= 0.0031308 ? c * 12.92 : Math.sign(c) * (1.055 * abs ** (1 / 2.4) - 0.055)) * 255;
+};
+
+export const rgbToLinear = ({ r, g, b }: Rgb): Triple => [toLinear(r), toLinear(g), toLinear(b)];
+
+export const linearToRgb = ([r, g, b]: Triple): Rgb => ({ r: fromLinear(r), g: fromLinear(g), b: fromLinear(b) });
+
+const linearSrgbToXyz = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496606],
+];
+
+const xyzToLinearSrgb = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+// Bradford 色适应：D65 <-> D50
+const d65ToD50 = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+
+const d50ToD65 = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+
+// --- CIE Lab / LCH (D50，与 CSS lab() 一致) ---
+
+const d50White: Triple = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const epsilon = 216 / 24389;
+const kappa = 24389 / 27;
+
+/**
+ * 返回 [L 0 ~ 100, a, b]
+ */
+export const rgbToLab = (color: Rgb): Triple => {
+  const xyz = multiply(d65ToD50, multiply(linearSrgbToXyz, rgbToLinear(color)));
+  const [fx, fy, fz] = xyz.map((v, i) => {
+    const t = v / d50White[i];
+    return t > epsilon ? Math.cbrt(t) : (kappa * t + 16) / 116;
+  });
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+export const labToRgb = ([l, a, b]: Triple): Rgb => {
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  const xyz: Triple = [
+    (fx ** 3 > epsilon ? fx ** 3 : (116 * fx - 16) / kappa) * d50White[0],
+    (l > kappa * epsilon ? fy ** 3 : l / kappa) * d50White[1],
+    (fz ** 3 > epsilon ? fz ** 3 : (116 * fz - 16) / kappa) * d50White[2],
+  ];
+  return linearToRgb(multiply(xyzToLinearSrgb, multiply(d50ToD65, xyz)));
+};
+
+/**
+ * 直角坐标 [L, a, b] 转为极坐标 [L, C, h]；Lab 与 OKLab 通用
+ */
+export const toPolar = ([l, a, b]: Triple): Triple => {
+  const c = Math.hypot(a, b);
+  // 接近灰色时色相没有意义，记为 0
+  return [l, c, c < 1e-4 ? 0 : normalizeHue((Math.atan2(b, a) * 180) / Math.PI)];
+};
+
+export const fromPolar = ([l, c, h]: Triple): Triple => {
+  const rad = (h * Math.PI) / 180;
+  return [l, c * Math.cos(rad), c * Math.sin(rad)];
+};
+
+// --- OKLab / OKLCH ---
+
+/**
+ * 返回 [L 0 ~ 1, a, b]
+ */
+export const rgbToOklab = (color: Rgb): Triple => {
+  const [r, g, b] = rgbToLinear(color);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+export const oklabToRgb = ([L, a, b]: Triple): Rgb => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return linearToRgb([
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ]);
+};
+
+export const rgbToOklch = (color: Rgb): Triple => toPolar(rgbToOklab(color));
+
+export const oklchToRgb = (lch: Triple): Rgb => oklabToRgb(fromPolar(lch));
+
+/**
+ * OKLCH 转为 sRGB 色域内的颜色：保持明度与色相，超出色域时二分查找降低色度
+ */
+export const oklchToGamut = ([l, c, h]: Triple): ColorData => {
+  const lightness = clamp(l, 0, 1);
+  if (isInGamut(oklchToRgb([lightness, c, h]))) return toColorData(oklchToRgb([lightness, c, h]));
+  let low = 0;
+  let high = c;
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (isInGamut(oklchToRgb([lightness, mid, h]))) low = mid;
+    else high = mid;
+  }
+  return toColorData(oklchToRgb([lightness, low, h]));
+};
+
+/**
+ * OKLab 中的色差 ΔE (乘以 100，与 CIE ΔE 的量级相近)
+ */
+export const deltaEOK = (a: Rgb, b: Rgb): number => {
+  const [l1, a1, b1] = rgbToOklab(a);
+  const [l2, a2, b2] = rgbToOklab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2) * 100;
+};
+
+// --- CSS 命名颜色 ---
+
+const namedColorList =
+  "aliceblue:f0f8ff,antiquewhite:faebd7,aqua:00ffff,aquamarine:7fffd4,azure:f0ffff,beige:f5f5dc,bisque:ffe4c4," +
+  "black:000000,blanchedalmond:ffebcd,blue:0000ff,blueviolet:8a2be2,brown:a52a2a,burlywood:deb887," +
+  "cadetblue:5f9ea0,chartreuse:7fff00,chocolate:d2691e,coral:ff7f50,cornflowerblue:6495ed,cornsilk:fff8dc," +
+  "crimson:dc143c,cyan:00ffff,darkblue:00008b,darkcyan:008b8b,darkgoldenrod:b8860b,darkgray:a9a9a9," +
+  "darkgreen:006400,darkgrey:a9a9a9,darkkhaki:bdb76b,darkmagenta:8b008b,darkolivegreen:556b2f," +
+  "darkorange:ff8c00,darkorchid:9932cc,darkred:8b0000,darksalmon:e9967a,darkseagreen:8fbc8f," +
+  "darkslateblue:483d8b,darkslategray:2f4f4f,darkslategrey:2f4f4f,darkturquoise:00ced1,darkviolet:9400d3," +
+  "deeppink:ff1493,deepskyblue:00bfff,dimgray:696969,dimgrey:696969,dodgerblue:1e90ff,firebrick:b22222," +
+  "floralwhite:fffaf0,forestgreen:228b22,fuchsia:ff00ff,gainsboro:dcdcdc,ghostwhite:f8f8ff,gold:ffd700," +
+  "goldenrod:daa520,gray:808080,green:008000,greenyellow:adff2f,grey:808080,honeydew:f0fff0,hotpink:ff69b4," +
+  "indianred:cd5c5c,indigo:4b0082,ivory:fffff0,khaki:f0e68c,lavender:e6e6fa,lavenderblush:fff0f5," +
+  "lawngreen:7cfc00,lemonchiffon:fffacd,lightblue:add8e6,lightcoral:f08080,lightcyan:e0ffff," +
+  "lightgoldenrodyellow:fafad2,lightgray:d3d3d3,lightgreen:90ee90,lightgrey:d3d3d3,lightpink:ffb6c1," +
+  "lightsalmon:ffa07a,lightseagreen:20b2aa,lightskyblue:87cefa,lightslategray:778899,lightslategrey:778899," +
+  "lightsteelblue:b0c4de,lightyellow:ffffe0,lime:00ff00,limegreen:32cd32,linen:faf0e6,magenta:ff00ff," +
+  "maroon:800000,mediumaquamarine:66cdaa,mediumblue:0000cd,mediumorchid:ba55d3,mediumpurple:9370db," +
+  "mediumseagreen:3cb371,mediumslateblue:7b68ee,mediumspringgreen:00fa9a,mediumturquoise:48d1cc," +
+  "mediumvioletred:c71585,midnightblue:191970,mintcream:f5fffa,mistyrose:ffe4e1,moccasin:ffe4b5," +
+  "navajowhite:ffdead,navy:000080,oldlace:fdf5e6,olive:808000,olivedrab:6b8e23,orange:ffa500," +
+  "orangered:ff4500,orchid:da70d6,palegoldenrod:eee8aa,palegreen:98fb98,paleturquoise:afeeee," +
+  "palevioletred:db7093,papayawhip:ffefd5,peachpuff:ffdab9,peru:cd853f,pink:ffc0cb,plum:dda0dd," +
+  "powderblue:b0e0e6,purple:800080,rebeccapurple:663399,red:ff0000,rosybrown:bc8f8f,royalblue:4169e1," +
+  "saddlebrown:8b4513,salmon:fa8072,sandybrown:f4a460,seagreen:2e8b57,seashell:fff5ee,sienna:a0522d," +
+  "silver:c0c0c0,skyblue:87ceeb,slateblue:6a5acd,slategray:708090,slategrey:708090,snow:fffafa," +
+  "springgreen:00ff7f,steelblue:4682b4,tan:d2b48c,teal:008080,thistle:d8bfd8,tomato:ff6347," +
+  "turquoise:40e0d0,violet:ee82ee,wheat:f5deb3,white:ffffff,whitesmoke:f5f5f5,yellow:ffff00," +
+  "yellowgreen:9acd32";
+
+export const namedColors: { name: string; color: ColorData }[] = namedColorList.split(",").map((entry) => {
+  const [name, hex] = entry.split(":");
+  return { name, color: hexToRgba(hex) };
+});
+
+/**
+ * 最接近的 CSS 命名颜色 (按 OKLab 色差)；distance 为 0 表示完全相同
+ */
+export const nearestNamedColor = (color: Rgb): { name: string; distance: number } => {
+  let best = { name: namedColors[0].name, distance: Infinity };
+  for (const { name, color: named } of namedColors) {
+    const distance = deltaEOK(color, named);
+    if (distance < best.distance) best = { name, distance };
+  }
+  return best;
+};
+
+// --- 文本格式 ---
+
+/**
+ * 取出文本中的数字，例如 "hsl(210deg, 50%, 40%)" -> [210, 50, 40]
+ */
+const numbersIn = (text: string, count: number): number[] | null => {
+  const found = text.match(/[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/gi);
+  if (!found || found.length !== count) return null;
+  const values = found.map(Number);
+  return values.every(Number.isFinite) ? values : null;
+};
+
+const triple = (text: string): Triple | null => numbersIn(text, 3) as Triple | null;
+
+export const colorFormats: ColorFormat[] = [
+  {
+    id: "hex",
+    label: "HEX",
+    format: ({ r, g, b }) => rgbToHex(r, g, b),
+    parse: parseHex,
+  },
+  {
+    id: "rgb",
+    label: "RGB",
+    format: (c) => {
+      const { r, g, b } = toColorData(c);
+      return `rgb(${r},${g},${b})`;
+    },
+    parse: (text) => {
+      const v = triple(text);
+      return v && { r: v[0], g: v[1], b: v[2] };
+    },
+  },
+  {
+    id: "hsl",
+    label: "HSL",
+    format: (c) => {
+      const [h, s, l] = rgbToHsl(c);
+      return `hsl(${round(h, 1)}, ${round(s, 1)}%, ${round(l, 1)}%)`;
+    },
+    parse: (text) => {
+      const v = triple(text);
+      return v && hslToRgb([normalizeHue(v[0]), clamp(v[1], 0, 100), clamp(v[2], 0, 100)]);
+    },
+  },
+  {
+    id: "hsv",
+    label: "HSV / HSB",
+    format: (c) => {
+      const [h, s, v] = rgbToHsv(c);
+      return `hsv(${round(h, 1)}, ${round(s, 1)}%, ${round(v, 1)}%)`;
+    },
+    parse: (text) => {
+      const v = triple(text);
+      return v && hsvToRgb([normalizeHue(v[0]), clamp(v[1], 0, 100), clamp(v[2], 0, 100)]);
+    },
+  },
+  {
+    id: "hwb",
+    label: "HWB",
+    format: (c) => {
+      const [h, w, b] = rgbToHwb(c);
+      return `hwb(${round(h, 1)} ${round(w, 1)}% ${round(b, 1)}%)`;
+    },
+    parse: (text) => {
+      const v = triple(text);
+      return v && hwbToRgb([normalizeHue(v[0]), clamp(v[1], 0, 100), clamp(v[2], 0, 100)]);
+    },
+  },
+  {
+    id: "cmyk",
+    label: "CMYK",
+    format: (c) => `cmyk(${rgbToCmyk(c).map((v) => `${round(v, 1)}%`).join(", ")})`,
+    parse: (text) => {
+      const v = numbersIn(text, 4);
+      return v && cmykToRgb(v.map((x) => clamp(x, 0, 100)) as [number, number, number, number]);
+    },
+  },
+  {
+    id: "lab",
+    label: "CIE Lab",
+    format: (c) => `lab(${rgbToLab(c).map((v) => round(v, 2)).join(" ")})`,
+    parse: (text) => {
+      const v = triple(text);
+      return v && labToRgb([clamp(v[0], 0, 100), v[1], v[2]]);
+    },
+  },
+  {
+    id: "lch",
+    label: "CIE LCH",
+    format: (c) => `lch(${toPolar(rgbToLab(c)).map((v) => round(v, 2)).join(" ")})`,
+    parse: (text) => {
+      const v = triple(text);
+      return v && labToRgb(fromPolar([clamp(v[0], 0, 100), Math.max(0, v[1]), v[2]]));
+    },
+  },
+  {
+    id: "oklab",
+    label: "OKLab",
+    format: (c) => `oklab(${rgbToOklab(c).map((v) => round(v, 4)).join(" ")})`,
+    parse: (text) => {
+      const v = triple(text);
+      // L 可写成百分比
+      return v && oklabToRgb([clamp(text.includes("%") ? v[0] / 100 : v[0], 0, 1), v[1], v[2]]);
+    },
+  },
+  {
+    id: "oklch",
+    label: "OKLCH",
+    format: (c) => {
+      const [l, ch, h] = rgbToOklch(c);
+      return `oklch(${round(l, 4)} ${round(ch, 4)} ${round(h, 2)})`;
+    },
+    parse: (text) => {
+      const v = triple(text);
+      return v && oklchToRgb([clamp(text.includes("%") ? v[0] / 100 : v[0], 0, 1), Math.max(0, v[1]), v[2]]);
+    },
+  },
+  {
+    id: "name",
+    label: "CSS 名称",
+    format: (c) => {
+      const { name, distance } = nearestNamedColor(toColorData(c));
+      return distance < 1e-6 ? name : `≈ ${name}`;
+    },
+    parse: (text) => {
+      const name = text.replace(/^≈/, "").trim().toLowerCase();
+      return namedColors.find((n) => n.name === name)?.color ?? null;
+    },
+  },
+];
+
+/**
+ * 解析任意一种格式的颜色文本：按函数名 (rgb()、hsl()、oklch() 等) 选择格式，
+ * 否则尝试 HEX 与 CSS 名称；无法解析时返回 null
+ */
+export const parseColor = (text: string): Rgb | null => {
+  const fn = text.trim().toLowerCase().match(/^([a-z]+)\s*\(/)?.[1];
+  if (fn) {
+    const id = { rgba: "rgb", hsla: "hsl", hsb: "hsv" }[fn] ?? fn;
+    return colorFormats.find((f) => f.id === id)?.parse(text) ?? null;
+  }
+  return parseHex(text) ?? colorFormats.find((f) => f.id === "name")!.parse(text);
+};
@@ -0,0 +1,86 @@
+// 色觉缺陷模拟：红色盲、绿色盲、蓝色盲 (Machado 等 2009 年的模型) 与全色盲，
+// 程度 0 ~ 1 之间按矩阵线性插值；以及找出模拟后难以区分的颜色对。
+
+import { deltaEOK, linearToRgb, rgbToLinear, toColorData, type ColorData, type Rgb } from "./colorSpaces.ts";
+
+// --- 类型定义 ---
+
+export type Deficiency = "protanopia" | "deuteranopia" | "tritanopia" | "achromatopsia";
+
+/**
+ * 模拟后色差低于阈值的一对颜色 (a、b 为在颜色组中的下标)
+ */
+export interface ConfusablePair {
+  a: number;
+  b: number;
+  distance: number; // ΔE (OKLab × 100)
+}
+
+export const deficiencies: { value: Deficiency; label: string }[] = [
+  { value: "protanopia", label: "红色盲" },
+  { value: "deuteranopia", label: "绿色盲" },
+  { value: "tritanopia", label: "蓝色盲" },
+  { value: "achromatopsia", label: "全色盲" },
+];
+
+/**
+ * 完全缺陷 (程度 1) 时作用于线性 sRGB 的矩阵
+ */
+const matrices: Record<Deficiency, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+  // 只保留亮度
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+};
+
+// --- 模拟 ---
+
+/**
+ * 模拟某种色觉缺陷下看到的颜色；severity 为 0 (正常) ~ 1 (完全)
+ */
+export const simulate = (color: Rgb, deficiency: Deficiency, severity: number): ColorData => {
+  const m = matrices[deficiency];
+  const linear = rgbToLinear(color);
+  const [r, g, b] = linear.map((v, row) => {
+    const full = m[row][0] * linear[0] + m[row][1] * linear[1] + m[row][2] * linear[2];
+    return v + (full - v) * severity;
+  });
+  return toColorData(linearToRgb([r, g, b]));
+};
+
+/**
+ * 颜色组在该缺陷下两两比较，返回色差小于 threshold 的颜色对 (按色差从小到大)
+ */
+export const confusablePairs = (
+  colors: Rgb[],
+  deficiency: Deficiency,
+  severity: number,
+  threshold: number
+): ConfusablePair[] => {
+  const simulated = colors.map((c) => simulate(c, deficiency, severity));
+  const pairs: ConfusablePair[] = [];
+  for (let a = 0; a < simulated.length; a++) {
+    for (let b = a + 1; b < simulated.length; b++) {
+      const distance = deltaEOK(simulated[a], simulated[b]);
+      if (distance < threshold) pairs.push({ a, b, distance });
+    }
+  }
+  return pairs.sort((x, y) => x.distance - y.distance);
+};
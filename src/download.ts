@@ -0,0 +1,14 @@
+/**
+ * 以文件形式下载内容 (导出 CSV、JSON 等共用)
+ */
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
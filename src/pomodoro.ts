@@ -0,0 +1,205 @@
+// 番茄钟的阶段循环：按计时方案 (pomodoroProfiles) 展开的步骤依次进行，例如
+// 工作 -> 短休息 -> 工作 ... -> 长休息，走完后从循环起点重新开始。
+// 计时基于绝对的结束时间戳，不依赖 setInterval 的触发次数：后台标签页被节流、
+// 页面关闭后重新打开，都按当前时间推算出正确的阶段与剩余时间。
+// 这里只有纯函数与持久化，计时与界面在 PomodoroTimer 中。
+
+import type { ChimeSound } from "./pomodoroAlerts.ts";
+import type { SessionRecord } from "./pomodoroLog.ts";
+import { defaultProfileId, expandSteps, stepDuration, type Profile } from "./pomodoroProfiles.ts";
+import type { TaskRef } from "./pomodoroTasks.ts";
+import { loadJson } from "./utils.ts";
+
+// --- 类型定义 ---
+
+export type Phase = "work" | "shortBreak" | "longBreak";
+
+/**
+ * 番茄钟设置
+ */
+export interface PomodoroSettings {
+  profileId: string; // 使用的计时方案
+  autoStartBreaks: boolean; // 工作结束后自动开始休息
+  autoStartWork: boolean; // 休息结束后自动开始工作
+  notifications: boolean; // 阶段结束时显示桌面通知
+  sound: ChimeSound; // 阶段结束的提示音
+  volume: number; // 提示音音量 0 ~ 100
+}
+
+/**
+ * 计时器状态：运行中记录结束时间，暂停时记录剩余时间
+ */
+export interface TimerState {
+  phase: Phase;
+  label: string; // 当前步骤的名称，例如 "热身"
+  step: number; // 当前方案展开后的第几个步骤
+  endsAt: number | null; // 运行中阶段的结束时间 (毫秒时间戳)，暂停或未开始时为 null
+  remaining: number; // 暂停时的剩余毫秒数
+  planned: number; // 当前阶段的计划时长 (毫秒)
+  startedAt: number | null; // 当前阶段第一次开始的时间，尚未开始时为 null
+  completed: number; // 已完成的工作阶段 (番茄) 数
+  task: TaskRef | null; // 当前进行的任务，完成的工作阶段计入该任务
+}
+
+export const settingsKey = "pomodoroSettings";
+export const timerKey = "pomodoroTimer";
+
+/**
+ * 离线期间最多补算的阶段数，避免长时间未打开时循环过多
+ */
+const maxCatchUpPhases = 1000;
+
+export const defaultSettings: PomodoroSettings = {
+  profileId: defaultProfileId,
+  autoStartBreaks: true,
+  autoStartWork: false,
+  notifications: false,
+  sound: "bell",
+  volume: 60,
+};
+
+// --- 帮助函数 ---
+
+/**
+ * 方案中第 index 个步骤对应的状态字段
+ */
+const stepFields = (profile: Profile, index: number): Pick<TimerState, "phase" | "label" | "step" | "planned"> => {
+  const { steps } = expandSteps(profile);
+  const step = steps[index] ?? steps[0];
+  return { phase: step.phase, label: step.name, step: steps[index] ? index : 0, planned: stepDuration(step) };
+};
+
+/**
+ * 方案中的下一个步骤，走完后回到循环起点
+ */
+const nextStep = (profile: Profile, index: number): number => {
+  const { steps, loopStart } = expandSteps(profile);
+  return index + 1 < steps.length ? index + 1 : loopStart;
+};
+
+export const initialTimer = (profile: Profile): TimerState => {
+  const first = stepFields(profile, 0);
+  return { ...first, endsAt: null, remaining: first.planned, startedAt: null, completed: 0, task: null };
+};
+
+export const isRunning = (state: TimerState): boolean => state.endsAt !== null;
+
+/**
+ * 剩余毫秒数
+ */
+export const timeLeft = (state: TimerState, now: number): number =>
+  state.endsAt !== null ? Math.max(0, state.endsAt - now) : state.remaining;
+
+export const startTimer = (state: TimerState, now: number): TimerState =>
+  state.endsAt !== null ? state : { ...state, endsAt: now + state.remaining, startedAt: state.startedAt ?? now };
+
+export const pauseTimer = (state: TimerState, now: number): TimerState =>
+  state.endsAt === null ? state : { ...state, endsAt: null, remaining: timeLeft(state, now) };
+
+/**
+ * 进入下一个阶段，at 为新阶段开始的时间；
+ * finished 为 true 表示当前阶段正常结束 (跳过的工作阶段不计数)
+ */
+export const advancePhase = (
+  state: TimerState,
+  profile: Profile,
+  settings: PomodoroSettings,
+  finished: boolean,
+  at: number
+): TimerState => {
+  const completed = state.completed + (finished && state.phase === "work" ? 1 : 0);
+  const next = stepFields(profile, nextStep(profile, state.step));
+  // 手动跳过时保持原来的运行状态，正常结束时按自动开始的设置
+  const autoStart = next.phase === "work" ? settings.autoStartWork : settings.autoStartBreaks;
+  const running = finished ? autoStart : isRunning(state);
+  return {
+    ...next,
+    endsAt: running ? at + next.planned : null,
+    remaining: next.planned,
+    startedAt: running ? at : null,
+    completed,
+    task: state.task,
+  };
+};
+
+/**
+ * 切换或修改计时方案：已开始的阶段继续按原时长进行，新方案从下一阶段起生效；
+ * 尚未开始的阶段立即换成新方案中对应的步骤。
+ * 对应步骤优先取原位置 (同类阶段)，否则取新方案中第一个同类阶段
+ */
+export const applyProfile = (state: TimerState, profile: Profile): TimerState => {
+  const { steps } = expandSteps(profile);
+  const index =
+    steps[state.step]?.phase === state.phase ? state.step : steps.findIndex((s) => s.phase === state.phase);
+  if (state.startedAt !== null) {
+    // -1 表示新方案中没有同类阶段，下一阶段从头开始
+    return { ...state, step: index };
+  }
+  const fields = stepFields(profile, Math.max(0, index));
+  return { ...state, ...fields, remaining: fields.planned };
+};
+
+/**
+ * 结束当前阶段时生成的记录；阶段尚未开始或没有实际计时时返回 null
+ * (正常结束时记录在结束时间，中途跳过或重置时记录在 now)
+ */
+export const endSession = (state: TimerState, now: number, finished: boolean): SessionRecord | null => {
+  if (state.startedAt === null) return null;
+  const end = finished && state.endsAt !== null ? state.endsAt : now;
+  const actual = finished ? state.planned : state.planned - timeLeft(state, now);
+  if (actual <= 0) return null;
+  return {
+    // 同一阶段的 id 固定，重复写入只会覆盖
+    id: `${state.phase}-${state.startedAt}`,
+    phase: state.phase,
+    start: state.startedAt,
+    end,
+    planned: state.planned,
+    actual,
+    status: finished ? "completed" : "aborted",
+    label: state.label,
+    task: state.task ?? undefined,
+  };
+};
+
+/**
+ * 按当前时间推进：结束时间已过的阶段依次结算，下一阶段从上一阶段的结束时间开始，
+ * 因此不会累积误差；没有变化时 state 为原对象。sessions 为期间结束的阶段记录
+ */
+export const catchUp = (
+  state: TimerState,
+  profile: Profile,
+  settings: PomodoroSettings,
+  now: number
+): { state: TimerState; sessions: SessionRecord[] } => {
+  let current = state;
+  const sessions: SessionRecord[] = [];
+  for (let i = 0; current.endsAt !== null && current.endsAt <= now; i++) {
+    if (i >= maxCatchUpPhases) return { state: pauseTimer(current, current.endsAt), sessions };
+    const session = endSession(current, current.endsAt, true);
+    if (session) sessions.push(session);
+    current = advancePhase(current, profile, settings, true, current.endsAt);
+  }
+  return { state: current, sessions };
+};
+
+// --- 持久化 ---
+
+export const loadSettings = (): PomodoroSettings => loadJson(settingsKey, defaultSettings);
+
+export const saveSettings = (settings: PomodoroSettings): void => {
+  window.localStorage.setItem(settingsKey, JSON.stringify(settings));
+};
+
+/**
+ * 读取计时器状态，并补算页面关闭期间经过的阶段 (同时返回这些阶段的记录)
+ */
+export const loadTimer = (
+  profile: Profile,
+  settings: PomodoroSettings
+): { state: TimerState; sessions: SessionRecord[] } =>
+  catchUp(loadJson(timerKey, initialTimer(profile)), profile, settings, Date.now());
+
+export const saveTimer = (state: TimerState): void => {
+  window.localStorage.setItem(timerKey, JSON.stringify(state));
+};
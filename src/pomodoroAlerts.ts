@@ -0,0 +1,159 @@
+// 番茄钟的提醒：桌面通知、Web Audio 合成的提示音、标签页标题倒计时与进度 favicon。
+
+// --- 类型定义 ---
+
+export type ChimeSound = "none" | "bell" | "digital" | "soft";
+
+export const chimeSounds: { value: ChimeSound; label: string }[] = [
+  { value: "bell", label: "铃声" },
+  { value: "digital", label: "电子音" },
+  { value: "soft", label: "柔和" },
+  { value: "none", label: "静音" },
+];
+
+/**
+ * 合成音色：依次播放的音符 (频率 Hz、开始时间与时长 秒)
+ */
+interface Note {
+  frequency: number;
+  start: number;
+  duration: number;
+}
+
+const chimeNotes: Record<Exclude<ChimeSound, "none">, { type: OscillatorType; notes: Note[] }> = {
+  bell: {
+    type: "sine",
+    notes: [
+      { frequency: 880, start: 0, duration: 1.2 },
+      { frequency: 1320, start: 0, duration: 0.8 },
+      { frequency: 880, start: 0.6, duration: 1.2 },
+    ],
+  },
+  digital: {
+    type: "square",
+    notes: [0, 0.2, 0.4].map((start) => ({ frequency: 1000, start, duration: 0.1 })),
+  },
+  soft: {
+    type: "triangle",
+    notes: [
+      { frequency: 523.25, start: 0, duration: 0.6 },
+      { frequency: 659.25, start: 0.25, duration: 0.6 },
+      { frequency: 783.99, start: 0.5, duration: 0.9 },
+    ],
+  },
+};
+
+// --- 提示音 ---
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * 在用户点击时创建或恢复 AudioContext；浏览器不允许在没有用户操作时开始播放声音
+ */
+export const unlockAudio = (): void => {
+  if (typeof AudioContext === "undefined") return;
+  audioContext ??= new AudioContext();
+  if (audioContext.state === "suspended") void audioContext.resume();
+};
+
+/**
+ * 播放提示音，volume 为 0 ~ 1
+ */
+export const playChime = (sound: ChimeSound, volume: number): void => {
+  if (sound === "none" || volume <= 0) return;
+  unlockAudio();
+  if (!audioContext) return;
+
+  const { type, notes } = chimeNotes[sound];
+  const now = audioContext.currentTime;
+  for (const note of notes) {
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = type;
+    oscillator.frequency.value = note.frequency;
+    // 快速起音后指数衰减，避免爆音
+    const start = now + note.start;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(Math.max(0.0001, volume * 0.3), start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + note.duration);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(start);
+    oscillator.stop(start + note.duration);
+  }
+};
+
+// --- 桌面通知 ---
+
+export const notificationsSupported = (): boolean => typeof Notification !== "undefined";
+
+/**
+ * 请求通知权限，返回是否已获准
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === "granted") return true;
+  if (Notification.permission === "denied") return false;
+  return (await Notification.requestPermission()) === "granted";
+};
+
+/**
+ * 显示桌面通知；同一 tag 的通知会替换旧的，点击时切回页面。
+ * 部分平台 (如 Android Chrome) 不允许直接构造 Notification，此时只靠提示音与标题提醒
+ */
+export const showNotification = (title: string, body: string): void => {
+  if (!notificationsSupported() || Notification.permission !== "granted") return;
+  let notification: Notification;
+  try {
+    notification = new Notification(title, { body, tag: "pomodoro", icon: "/favicon-light.png" });
+  } catch {
+    return;
+  }
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+// --- 标签页 favicon ---
+
+const faviconSize = 64;
+
+/**
+ * 计时期间替换掉的 favicon 原地址，恢复时使用
+ */
+let originalIcons: Map<HTMLLinkElement, string> | null = null;
+
+/**
+ * 绘制进度环 favicon；progress 为 0 ~ 1 (已经过的比例)
+ */
+export const setProgressFavicon = (progress: number, color: string): void => {
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = faviconSize;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const center = faviconSize / 2;
+  const radius = center - 6;
+  ctx.lineWidth = 10;
+  ctx.strokeStyle = "#e5e7eb";
+  ctx.beginPath();
+  ctx.arc(center, center, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // 从 12 点方向顺时针绘制已经过的部分
+  ctx.strokeStyle = color;
+  ctx.beginPath();
+  ctx.arc(center, center, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * Math.min(1, Math.max(0, progress)));
+  ctx.stroke();
+
+  const href = canvas.toDataURL("image/png");
+  const links = document.querySelectorAll<HTMLLinkElement>("link[rel~='icon']");
+  // 页面按明暗主题提供了多个 favicon，全部替换，恢复时再还原
+  originalIcons ??= new Map([...links].map((link) => [link, link.href]));
+  links.forEach((link) => (link.href = href));
+};
+
+export const restoreFavicon = (): void => {
+  originalIcons?.forEach((href, link) => (link.href = href));
+  originalIcons = null;
+};
@@ -0,0 +1,171 @@
+// 番茄钟的阶段记录：保存在 IndexedDB (数据量会持续增长，不适合放 localStorage)，
+// 可导出为 CSV 与 iCalendar (.ics)。
+
+import type { Phase } from "./pomodoro.ts";
+import type { TaskRef } from "./pomodoroTasks.ts";
+import { csvCell } from "./utils.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 一条阶段记录 (工作或休息)
+ */
+export interface SessionRecord {
+  id: string;
+  phase: Phase;
+  start: number; // 开始时间 (毫秒时间戳)
+  end: number; // 结束时间
+  planned: number; // 计划时长 (毫秒)
+  actual: number; // 实际计时时长 (毫秒，不含暂停)
+  status: "completed" | "aborted"; // 正常结束 / 中途跳过或重置
+  label?: string; // 步骤名称，例如 "热身"
+  task?: TaskRef; // 进行中的任务
+}
+
+const dbName = "pomodoro";
+const storeName = "sessions";
+
+const phaseNames: Record<Phase, string> = {
+  work: "工作",
+  shortBreak: "短休息",
+  longBreak: "长休息",
+};
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 打开数据库 (只打开一次)；首次使用时建表
+ */
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(storeName, { keyPath: "id" });
+      store.createIndex("start", "start");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+/**
+ * 在一个事务中执行操作，事务完成后 resolve
+ */
+const transaction = async (
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * 写入记录；id 相同的记录会被覆盖
+ */
+export const addSessions = async (sessions: SessionRecord[]): Promise<void> => {
+  if (sessions.length === 0) return;
+  await transaction("readwrite", (store) => sessions.forEach((s) => store.put(s)));
+};
+
+/**
+ * 按开始时间升序读取全部记录
+ */
+export const loadSessions = async (): Promise<SessionRecord[]> => {
+  let result: SessionRecord[] = [];
+  await transaction("readonly", (store) => {
+    const request = store.index("start").getAll();
+    request.onsuccess = () => (result = request.result);
+  });
+  return result;
+};
+
+export const clearSessions = (): Promise<void> => transaction("readwrite", (store) => store.clear());
+
+// --- 导出 ---
+
+const minutes = (ms: number): string => (ms / 60_000).toFixed(1);
+
+/**
+ * 导出为 CSV；开头加 BOM，Excel 打开中文不乱码
+ */
+export const sessionsToCsv = (sessions: SessionRecord[]): string => {
+  const header = ["开始", "结束", "阶段", "计划分钟", "实际分钟", "状态", "任务"];
+  const rows = sessions.map((s) => [
+    new Date(s.start).toISOString(),
+    new Date(s.end).toISOString(),
+    s.label ?? phaseNames[s.phase],
+    minutes(s.planned),
+    minutes(s.actual),
+    s.status === "completed" ? "完成" : "中断",
+    s.task?.title ?? "",
+  ]);
+  return "\uFEFF" + [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+};
+
+/**
+ * iCalendar 的 UTC 时间格式，例如 20261019T013000Z
+ */
+const icsTime = (ms: number): string => new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const icsText = (text: string): string => text.replace(/[\\;,]/g, (c) => `\\${c}`).replace(/\n/g, "\\n");
+
+/**
+ * 按规范把超过 75 字节的行折成多行，续行以空格开头 (中文按 UTF-8 计 3 字节)
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  for (const ch of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + ch).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+/**
+ * 导出为 iCalendar，每条记录一个 VEVENT，可导入日历应用
+ */
+export const sessionsToIcs = (sessions: SessionRecord[]): string => {
+  const stamp = icsTime(Date.now());
+  const events = sessions.flatMap((s) => [
+    "BEGIN:VEVENT",
+    `UID:${s.id}@pomodoro`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${icsTime(s.start)}`,
+    `DTEND:${icsTime(s.end)}`,
+    `SUMMARY:${icsText(`番茄钟 · ${s.label ?? phaseNames[s.phase]}${s.task ? ` · ${s.task.title}` : ""}`)}`,
+    `DESCRIPTION:${icsText(
+      `${s.status === "completed" ? "完成" : "中断"}，实际 ${minutes(s.actual)} 分钟 / 计划 ${minutes(s.planned)} 分钟`
+    )}`,
+    "END:VEVENT",
+  ]);
+  // 规范要求使用 CRLF 换行
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Toolbox//Pomodoro//ZH",
+    "CALSCALE:GREGORIAN",
+    ...events,
+    "END:VCALENDAR",
+    "",
+  ]
+    .map(foldLine)
+    .join("\r\n");
+};
@@ -0,0 +1,152 @@
+// 番茄钟的计时方案：由若干区块组成，每个区块是一组按顺序进行、可重复多次的间隔，
+// 例如 热身 -> (工作 -> 短休息) ×3 -> 长休息。全部走完后从 loopFrom 指定的区块重新开始。
+
+import type { Phase } from "./pomodoro.ts";
+import { createId } from "./utils.ts";
+
+// --- 类型定义 ---
+
+/**
+ * 一个计时间隔；phase 决定颜色、是否计为番茄以及自动开始的设置
+ */
+export interface Interval {
+  name: string;
+  phase: Phase;
+  minutes: number;
+}
+
+export interface Block {
+  repeat: number; // 区块重复次数
+  intervals: Interval[];
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  blocks: Block[];
+  loopFrom: number; // 走完后从第几个区块重新开始
+  builtin?: boolean; // 内置方案不可修改，可复制后编辑
+}
+
+/**
+ * 展开后的一个步骤
+ */
+export interface Step extends Interval {
+  round: number; // 所在区块的第几轮 (从 1 开始)
+  rounds: number; // 所在区块的总轮数
+}
+
+export const profilesKey = "pomodoroProfiles";
+
+const work = (minutes: number, name = "工作"): Interval => ({ name, phase: "work", minutes });
+const shortBreak = (minutes: number, name = "短休息"): Interval => ({ name, phase: "shortBreak", minutes });
+const longBreak = (minutes: number, name = "长休息"): Interval => ({ name, phase: "longBreak", minutes });
+
+export const builtinProfiles: Profile[] = [
+  {
+    id: "classic",
+    name: "经典 25/5",
+    blocks: [
+      { repeat: 3, intervals: [work(25), shortBreak(5)] },
+      { repeat: 1, intervals: [work(25), longBreak(15)] },
+    ],
+    loopFrom: 0,
+    builtin: true,
+  },
+  {
+    id: "52-17",
+    name: "52/17",
+    blocks: [{ repeat: 1, intervals: [work(52), shortBreak(17, "休息")] }],
+    loopFrom: 0,
+    builtin: true,
+  },
+  {
+    id: "deep-work",
+    name: "深度工作 90/20",
+    blocks: [{ repeat: 1, intervals: [work(90, "深度工作"), longBreak(20, "休息")] }],
+    loopFrom: 0,
+    builtin: true,
+  },
+  {
+    id: "warm-up",
+    name: "热身 + 番茄",
+    blocks: [
+      { repeat: 1, intervals: [work(10, "热身")] },
+      { repeat: 3, intervals: [work(25), shortBreak(5)] },
+      { repeat: 1, intervals: [longBreak(15)] },
+    ],
+    loopFrom: 1,
+    builtin: true,
+  },
+];
+
+export const defaultProfileId = builtinProfiles[0].id;
+
+// --- 帮助函数 ---
+
+/**
+ * 复制一个方案用于编辑
+ */
+export const copyProfile = (profile: Profile, name: string): Profile => ({
+  id: createId(),
+  name,
+  blocks: profile.blocks.map((b) => ({ repeat: b.repeat, intervals: b.intervals.map((i) => ({ ...i })) })),
+  loopFrom: profile.loopFrom,
+});
+
+/**
+ * 方案是否可用：至少有一个间隔，且时长都为正数
+ */
+export const isValidProfile = (profile: Profile): boolean =>
+  profile.blocks.some((b) => b.intervals.length > 0) &&
+  profile.blocks.every((b) => b.repeat >= 1 && b.intervals.every((i) => i.minutes > 0));
+
+/**
+ * 按 id 查找方案，找不到 (例如已删除) 或不可用时使用经典方案
+ */
+export const findProfile = (profiles: Profile[], id: string): Profile =>
+  profiles.find((p) => p.id === id && isValidProfile(p)) ?? builtinProfiles[0];
+
+/**
+ * 把区块按重复次数展开成步骤序列；loopStart 为循环起点区块的第一个步骤
+ */
+export const expandSteps = (profile: Profile): { steps: Step[]; loopStart: number } => {
+  const steps: Step[] = [];
+  let loopStart = 0;
+  profile.blocks.forEach((block, b) => {
+    if (b === profile.loopFrom) loopStart = steps.length;
+    const rounds = Math.max(1, Math.floor(block.repeat));
+    for (let round = 1; round <= rounds; round++) {
+      block.intervals.forEach((interval) => steps.push({ ...interval, round, rounds }));
+    }
+  });
+  // 循环起点之后没有步骤时从头开始
+  return { steps, loopStart: loopStart < steps.length ? loopStart : 0 };
+};
+
+/**
+ * 步骤时长 (毫秒)
+ */
+export const stepDuration = (step: Interval): number => Math.round(step.minutes * 60_000);
+
+// --- 持久化 ---
+
+/**
+ * 读取全部方案：内置方案在前，其后是自定义方案
+ */
+export const loadProfiles = (): Profile[] => {
+  if (typeof window === "undefined") return builtinProfiles;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(profilesKey) ?? "[]");
+    return [...builtinProfiles, ...(Array.isArray(saved) ? saved : [])];
+  } catch {
+    return builtinProfiles;
+  }
+};
+
+/**
+ * 只保存自定义方案
+ */
+export const saveProfiles = (profiles: Profile[]): void => {
+  window.localStorage.setItem(profilesKey, JSON.stringify(profiles.filter((p) => !p.builtin)));
+};
@@ -0,0 +1,124 @@
+// 番茄钟统计：按天、按周的专注分钟数，连续天数，完成率与日历热力图数据。
+// 日期按本地时间划分，一周从周一开始。
+
+import type { SessionRecord } from "./pomodoroLog.ts";
+
+// --- 类型定义 ---
+
+export interface HeatmapCell {
+  key: string; // 日期 "YYYY-MM-DD"
+  minutes: number;
+  future: boolean; // 今天之后的格子不着色
+}
+
+export interface FocusStats {
+  today: number; // 今天的专注分钟数
+  thisWeek: number;
+  streak: number; // 连续有完成番茄的天数
+  completed: number; // 完成的工作阶段数
+  completionRate: number | null; // 完成 / (完成 + 中断)，没有工作记录时为 null
+  days: { key: string; label: string; minutes: number }[]; // 最近 7 天
+  weeks: { key: string; label: string; minutes: number }[]; // 最近 8 周
+  heatmap: HeatmapCell[][]; // 按周分列，每列周一到周日
+}
+
+/**
+ * 热力图显示的周数 (约一年)
+ */
+const heatmapWeeks = 53;
+
+const weekdayLabels = ["日", "一", "二", "三", "四", "五", "六"];
+
+// --- 帮助函数 ---
+
+const pad = (n: number): string => String(n).padStart(2, "0");
+
+/**
+ * 本地日期的键，例如 "2026-10-19"
+ */
+export const dayKey = (date: Date | number): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const startOfDay = (ms: number): Date => {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/**
+ * 所在周的周一零点
+ */
+const startOfWeek = (ms: number): Date => {
+  const d = startOfDay(ms);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+};
+
+/**
+ * 按天偏移 (用 setDate，夏令时切换日也正确)
+ */
+const addDays = (date: Date, days: number): Date => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+/**
+ * 由阶段记录计算统计数据；专注时间只统计工作阶段的实际计时，按开始日期归属
+ */
+export const computeStats = (sessions: SessionRecord[], now: number): FocusStats => {
+  const work = sessions.filter((s) => s.phase === "work");
+  const minutesByDay = new Map<string, number>();
+  const completedDays = new Set<string>();
+  for (const s of work) {
+    const key = dayKey(s.start);
+    minutesByDay.set(key, (minutesByDay.get(key) ?? 0) + s.actual / 60_000);
+    if (s.status === "completed") completedDays.add(key);
+  }
+  const minutesOn = (date: Date) => Math.round(minutesByDay.get(dayKey(date)) ?? 0);
+
+  const today = startOfDay(now);
+  const days = Array.from({ length: 7 }, (_, i) => {
+    const date = addDays(today, i - 6);
+    return { key: dayKey(date), label: `周${weekdayLabels[date.getDay()]}`, minutes: minutesOn(date) };
+  });
+
+  const thisWeekStart = startOfWeek(now);
+  const weekMinutes = (start: Date) =>
+    Array.from({ length: 7 }, (_, i) => minutesOn(addDays(start, i))).reduce((a, b) => a + b, 0);
+  const weeks = Array.from({ length: 8 }, (_, i) => {
+    const start = addDays(thisWeekStart, (i - 7) * 7);
+    return { key: dayKey(start), label: `${start.getMonth() + 1}/${start.getDate()}`, minutes: weekMinutes(start) };
+  });
+
+  // 连续天数：今天还没有完成番茄时从昨天开始往前数
+  let streak = 0;
+  let cursor = completedDays.has(dayKey(today)) ? today : addDays(today, -1);
+  while (completedDays.has(dayKey(cursor))) {
+    streak++;
+    cursor = addDays(cursor, -1);
+  }
+
+  const completed = work.filter((s) => s.status === "completed").length;
+
+  const firstWeek = addDays(thisWeekStart, -(heatmapWeeks - 1) * 7);
+  const heatmap = Array.from({ length: heatmapWeeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = addDays(firstWeek, w * 7 + d);
+      return { key: dayKey(date), minutes: minutesOn(date), future: date > today };
+    })
+  );
+
+  return {
+    today: minutesOn(today),
+    thisWeek: weekMinutes(thisWeekStart),
+    streak,
+    completed,
+    completionRate: work.length > 0 ? completed / work.length : null,
+    days,
+    weeks,
+    heatmap,
+  };
+};
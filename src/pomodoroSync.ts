@@ -0,0 +1,80 @@
+// 多个标签页共用一个番茄钟：状态变化通过 BroadcastChannel 发给其他标签页，
+// 不支持时退回到监听 localStorage 的 storage 事件 (各状态本来就会写入 localStorage)。
+// 阶段结束的提醒只由一个标签页负责。
+
+import { settingsKey, timerKey, type PomodoroSettings, type TimerState } from "./pomodoro.ts";
+import { builtinProfiles, profilesKey, type Profile } from "./pomodoroProfiles.ts";
+import { tasksKey, type Task } from "./pomodoroTasks.ts";
+
+// --- 类型定义 ---
+
+export type SyncMessage =
+  | { type: "timer"; state: TimerState }
+  | { type: "settings"; settings: PomodoroSettings }
+  | { type: "tasks"; tasks: Task[] }
+  | { type: "profiles"; profiles: Profile[] };
+
+export interface TimerSync {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+const channelName = "pomodoro";
+const claimKey = "pomodoroAlerted";
+const claimLock = "pomodoroAlert";
+
+// --- 同步 ---
+
+/**
+ * storage 事件中各 key 对应的消息
+ */
+const storageMessage = (key: string, value: string): SyncMessage | null => {
+  const data = JSON.parse(value);
+  if (key === timerKey) return { type: "timer", state: data };
+  if (key === settingsKey) return { type: "settings", settings: data };
+  if (key === tasksKey) return { type: "tasks", tasks: data };
+  // localStorage 中只有自定义方案
+  if (key === profilesKey) return { type: "profiles", profiles: [...builtinProfiles, ...data] };
+  return null;
+};
+
+/**
+ * 连接到其他标签页；onMessage 只收到其他标签页发出的消息
+ */
+export const connectSync = (onMessage: (message: SyncMessage) => void): TimerSync => {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (e: MessageEvent<SyncMessage>) => onMessage(e.data);
+    return { post: (message) => channel.postMessage(message), close: () => channel.close() };
+  }
+
+  // 回退：其他标签页写入 localStorage 时本页收到 storage 事件，发送方无需额外操作
+  const listener = (e: StorageEvent) => {
+    if (e.storageArea !== window.localStorage || e.key === null || e.newValue === null) return;
+    try {
+      const message = storageMessage(e.key, e.newValue);
+      if (message) onMessage(message);
+    } catch {
+      // 忽略无法解析的值
+    }
+  };
+  window.addEventListener("storage", listener);
+  return { post: () => {}, close: () => window.removeEventListener("storage", listener) };
+};
+
+/**
+ * 争取某次阶段结束的提醒权：最先为该 id 登记的标签页返回 true。
+ * 有 Web Locks 时在锁内读写，保证多个标签页同时判断也只有一个成功
+ */
+export const claimPhaseEnd = async (id: string): Promise<boolean> => {
+  const claim = (): boolean => {
+    try {
+      if (window.localStorage.getItem(claimKey) === id) return false;
+      window.localStorage.setItem(claimKey, id);
+    } catch {
+      // localStorage 不可用时各标签页无法协调，由本页提醒
+    }
+    return true;
+  };
+  return "locks" in navigator ? navigator.locks.request(claimLock, claim) : claim();
+};
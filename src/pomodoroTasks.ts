@@ -0,0 +1,85 @@
+// 番茄钟的任务清单：每个任务有预估的番茄数，完成的工作阶段计入当前任务，
+// 便于对比预估与实际。
+
+import type { SessionRecord } from "./pomodoroLog.ts";
+import { createId } from "./utils.ts";
+
+// --- 类型定义 ---
+
+export interface Task {
+  id: string;
+  title: string;
+  estimate: number; // 预估番茄数
+  actual: number; // 已完成的番茄数
+  done: boolean;
+  archived: boolean; // 归档后不在清单中显示
+}
+
+/**
+ * 计时器与阶段记录中引用的任务 (保存标题，任务归档或删除后记录仍可读)
+ */
+export interface TaskRef {
+  id: string;
+  title: string;
+}
+
+export const tasksKey = "pomodoroTasks";
+
+// --- 帮助函数 ---
+
+export const createTask = (title: string, estimate: number): Task => ({
+  id: createId(),
+  title,
+  estimate: Math.max(1, Math.round(estimate)),
+  actual: 0,
+  done: false,
+  archived: false,
+});
+
+export const taskRef = (task: Task): TaskRef => ({ id: task.id, title: task.title });
+
+export const updateTask = (tasks: Task[], id: string, patch: Partial<Task>): Task[] =>
+  tasks.map((t) => (t.id === id ? { ...t, ...patch } : t));
+
+/**
+ * 在未归档的任务之间上下移动 (delta 为 -1 或 1)；归档的任务位置不变
+ */
+export const moveTask = (tasks: Task[], id: string, delta: number): Task[] => {
+  const visible = tasks.filter((t) => !t.archived);
+  const from = visible.findIndex((t) => t.id === id);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= visible.length) return tasks;
+  [visible[from], visible[to]] = [visible[to], visible[from]];
+  let i = 0;
+  return tasks.map((t) => (t.archived ? t : visible[i++]));
+};
+
+/**
+ * 把正常完成的工作阶段计入对应的任务
+ */
+export const creditSessions = (tasks: Task[], sessions: SessionRecord[]): Task[] => {
+  const counts = new Map<string, number>();
+  for (const s of sessions) {
+    if (s.phase === "work" && s.status === "completed" && s.task) {
+      counts.set(s.task.id, (counts.get(s.task.id) ?? 0) + 1);
+    }
+  }
+  if (counts.size === 0) return tasks;
+  return tasks.map((t) => (counts.has(t.id) ? { ...t, actual: t.actual + counts.get(t.id)! } : t));
+};
+
+// --- 持久化 ---
+
+export const loadTasks = (): Task[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(tasksKey) ?? "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveTasks = (tasks: Task[]): void => {
+  window.localStorage.setItem(tasksKey, JSON.stringify(tasks));
+};
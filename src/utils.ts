@@ -0,0 +1,25 @@
+/**
+ * 生成记录 id (crypto.randomUUID 在非 HTTPS 的局域网地址下不可用)
+ */
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * CSV 单元格转义：含逗号、引号或换行时加引号
+ */
+export const csvCell = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * 从 localStorage 读取 JSON；数组整体替换，对象与默认值合并 (旧版本缺少的字段取默认值)
+ */
+export const loadJson = <T>(key: string, fallback: T): T => {
+  if (typeof window === "undefined") return fallback;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(key) ?? "null");
+    if (Array.isArray(fallback)) return Array.isArray(saved) ? (saved as T) : fallback;
+    return saved && typeof saved === "object" ? { ...fallback, ...saved } : fallback;
+  } catch {
+    return fallback;
+  }
+};